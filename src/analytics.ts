@@ -0,0 +1,181 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+import { config, getConfigDir } from "./config.js";
+import type { KeywordMatch } from "./keywords.js";
+import { isPerplexityTool } from "./routing.js";
+import type { ResolvedRoute } from "./routing.js";
+import type { NudgeLevel } from "./session.js";
+import { debug } from "./services/logger.js";
+
+interface BaseEvent {
+  time: string;
+  sessionID: string;
+}
+
+/**
+ * What the plugin records locally. `ignored` and `rejected` are the
+ * false-positive signals: a full hint the agent never acted on before the
+ * next user message, or one the user answered with `!noweb`.
+ */
+export type AnalyticsEvent =
+  | (BaseEvent & {
+      kind: "detection";
+      category: string;
+      score: number;
+      signals: string[];
+      /** Text matched by built-in patterns, which only match their own phrases */
+      phrases?: string[];
+      forced: boolean;
+    })
+  | (BaseEvent & {
+      kind: "nudge";
+      category: string;
+      level: NudgeLevel;
+      tool: string;
+      signals: string[];
+    })
+  | (BaseEvent & {
+      kind: "tool";
+      tool: string;
+      afterNudge: boolean;
+      /** The followed hint's signals, when `afterNudge` */
+      signals?: string[];
+    })
+  | (BaseEvent & { kind: "ignored" | "rejected"; category: string; signals: string[] });
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+interface PendingNudge {
+  category: string;
+  signals: string[];
+}
+
+// Nudges waiting for a Perplexity tool call, by session
+const pending = new Map<string, PendingNudge>();
+
+export function getStatsFilePath(): string {
+  return join(getConfigDir(), "perplexity-stats.jsonl");
+}
+
+function isEnabled(): boolean {
+  return config.analytics?.enabled !== false;
+}
+
+function signalNames(match: KeywordMatch): string[] {
+  return match.signals.filter((s) => s.weight > 0 || s.name === "directive").map((s) => s.name);
+}
+
+// Custom patterns are the user's own regexes and may match anything, so only
+// built-in patterns' text is kept
+function builtInPhrases(match: KeywordMatch): string[] {
+  return match.signals
+    .filter((s) => s.weight > 0 && s.name !== "question" && !s.name.startsWith("custom:"))
+    .map((s) => s.text.toLowerCase().replace(/\s+/g, " "));
+}
+
+type EventInput = AnalyticsEvent extends infer E ? (E extends unknown ? Omit<E, "time"> : never) : never;
+
+function append(event: EventInput): void {
+  if (!isEnabled()) {
+    return;
+  }
+
+  try {
+    mkdirSync(getConfigDir(), { recursive: true });
+    appendFileSync(
+      getStatsFilePath(),
+      JSON.stringify({ time: new Date().toISOString(), ...event }) + "\n"
+    );
+  } catch (err) {
+    debug("analytics.write_failed", { error: String(err) });
+  }
+}
+
+/**
+ * Called for every user message, before detection. Settles the previous
+ * message's hint if the agent never followed it.
+ */
+export function recordUserMessage(sessionID: string, suppressed: boolean): void {
+  const previous = pending.get(sessionID);
+  if (!previous) {
+    return;
+  }
+  pending.delete(sessionID);
+  append({ kind: suppressed ? "rejected" : "ignored", sessionID, ...previous });
+}
+
+export function recordDetection(sessionID: string, match: KeywordMatch, forced: boolean): void {
+  append({
+    kind: "detection",
+    sessionID,
+    category: match.category,
+    score: match.score,
+    signals: signalNames(match),
+    phrases: builtInPhrases(match),
+    forced,
+  });
+}
+
+export function recordNudgeEvent(
+  sessionID: string,
+  match: KeywordMatch,
+  level: NudgeLevel,
+  route: ResolvedRoute
+): void {
+  const signals = signalNames(match);
+  pending.set(sessionID, { category: match.category, signals });
+  append({ kind: "nudge", sessionID, category: match.category, level, tool: route.tool, signals });
+}
+
+export function recordToolCall(sessionID: string, tool: string): void {
+  if (!isPerplexityTool(tool)) {
+    return;
+  }
+  const followed = pending.get(sessionID);
+  pending.delete(sessionID);
+  append({ kind: "tool", sessionID, tool, afterNudge: !!followed, signals: followed?.signals });
+}
+
+export function forgetAnalyticsSession(sessionID: string): void {
+  pending.delete(sessionID);
+}
+
+/** Reads every recorded event, skipping lines that don't parse. */
+export function readEvents(path = getStatsFilePath()): AnalyticsEvent[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const events: AnalyticsEvent[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line) as AnalyticsEvent);
+    } catch {
+      // A partial line from an interrupted write
+    }
+  }
+  return events;
+}
+
+/** Drops events older than `analytics.retentionDays`. */
+export function pruneEvents(now = Date.now()): void {
+  const path = getStatsFilePath();
+  if (!isEnabled() || !existsSync(path)) {
+    return;
+  }
+
+  const retentionDays = config.analytics?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  const cutoff = now - retentionDays * 86_400_000;
+  const events = readEvents(path);
+  const kept = events.filter((e) => Date.parse(e.time) >= cutoff);
+
+  if (kept.length < events.length) {
+    try {
+      writeFileSync(path, kept.map((e) => JSON.stringify(e) + "\n").join(""));
+    } catch (err) {
+      debug("analytics.prune_failed", { error: String(err) });
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+
+import { config, getConfigDir } from "./config.js";
+import { dayKey } from "./temporal.js";
+import { debug } from "./services/logger.js";
+
+export type BudgetLimit = "sessionCalls" | "dailyCalls" | "dailyCost";
+
+export interface BudgetUsage {
+  calls: number;
+  /** Estimated US dollars */
+  cost: number;
+}
+
+interface SessionUsage extends BudgetUsage {
+  lastUsedAt: number;
+}
+
+interface BudgetFile {
+  version: 1;
+  /** By local date, YYYY-MM-DD */
+  days: Record<string, BudgetUsage>;
+  sessions: Record<string, SessionUsage>;
+}
+
+export interface BudgetStatus {
+  date: string;
+  day: BudgetUsage;
+  /** Null without a session, or before its first call */
+  session: BudgetUsage | null;
+  /** Fewest calls left under either call limit; null when neither is set */
+  remainingCalls: number | null;
+  /** Estimated dollars left today; null without `budget.dailyCost` */
+  remainingCost: number | null;
+  /** The first limit already reached */
+  exhausted: BudgetLimit | null;
+}
+
+export interface BudgetRefusal {
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+  /** Estimated cost of the refused call */
+  cost: number;
+}
+
+/** What the budget left of a hint: as is, a research hint cut down to a search, or none at all. */
+export type HintBudget = "ok" | "downgraded" | "exhausted";
+
+// A research hint asks for several searches; below this many the budget can't pay for one
+const RESEARCH_QUERIES = 3;
+
+const KEEP_DAYS = 30;
+const KEEP_SESSION_DAYS = 7;
+
+// MCP tools don't say which model they use; these are the perplexity-mcp tools
+const MCP_TOOL_MODELS: Array<[RegExp, string]> = [
+  [/research/i, "sonar-deep-research"],
+  [/reason/i, "sonar-reasoning-pro"],
+];
+
+export function getBudgetFilePath(): string {
+  return join(getConfigDir(), "perplexity-budget.json");
+}
+
+export function isBudgetEnabled(): boolean {
+  return config.budget?.enabled !== false;
+}
+
+function emptyBudget(): BudgetFile {
+  return { version: 1, days: {}, sessions: {} };
+}
+
+function readBudget(): BudgetFile {
+  const path = getBudgetFilePath();
+  try {
+    if (!existsSync(path)) {
+      return emptyBudget();
+    }
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as BudgetFile;
+    return parsed.version === 1 && parsed.days && parsed.sessions ? parsed : emptyBudget();
+  } catch {
+    // A corrupt file starts the count over rather than refusing every search
+    return emptyBudget();
+  }
+}
+
+function writeBudget(budget: BudgetFile): void {
+  const path = getBudgetFilePath();
+  mkdirSync(getConfigDir(), { recursive: true });
+  // Write-then-rename so concurrent OpenCode processes never read half a file
+  const temp = `${path}.${process.pid}.tmp`;
+  writeFileSync(temp, JSON.stringify(budget, null, 2));
+  renameSync(temp, path);
+}
+
+function prune(budget: BudgetFile, now: number): void {
+  const oldestDay = dayKey(now - KEEP_DAYS * 86_400_000);
+  for (const date of Object.keys(budget.days)) {
+    if (date < oldestDay) delete budget.days[date];
+  }
+  const cutoff = now - KEEP_SESSION_DAYS * 86_400_000;
+  for (const [sessionID, usage] of Object.entries(budget.sessions)) {
+    if (usage.lastUsedAt < cutoff) delete budget.sessions[sessionID];
+  }
+}
+
+/**
+ * The model a Perplexity tool call will use: the `model` argument, else the
+ * model routed to the tool, else the default `model`.
+ */
+export function getCallModel(tool: string, args: Record<string, unknown> | undefined): string {
+  if (typeof args?.model === "string" && args.model) {
+    return args.model;
+  }
+  const route = Object.values(config.routing ?? {}).find((r) => r?.tool === tool && r.model);
+  if (route?.model) {
+    return route.model;
+  }
+  return MCP_TOOL_MODELS.find(([pattern]) => pattern.test(tool))?.[1] ?? (config.model || "sonar");
+}
+
+/** Estimated dollars per call from `budget.modelCosts`; unknown models cost as much as `model`. */
+export function estimateCost(model: string): number {
+  const costs = config.budget?.modelCosts ?? {};
+  return costs[model] ?? costs[config.model || "sonar"] ?? 0;
+}
+
+// Keeps sums of estimates like 0.1 + 0.2 from printing as 0.30000000000000004
+function addCost(a: number, b: number): number {
+  return Math.round((a + b) * 1e6) / 1e6;
+}
+
+function limitOf(value: number | undefined): number | null {
+  return value && value > 0 ? value : null;
+}
+
+export function getBudgetStatus(sessionID?: string, now = Date.now()): BudgetStatus {
+  const budget = readBudget();
+  const date = dayKey(now);
+  const day = budget.days[date] ?? { calls: 0, cost: 0 };
+  const saved = sessionID ? budget.sessions[sessionID] : undefined;
+  const session = saved ? { calls: saved.calls, cost: saved.cost } : null;
+
+  const sessionCalls = limitOf(config.budget?.sessionCalls);
+  const dailyCalls = limitOf(config.budget?.dailyCalls);
+  const dailyCost = limitOf(config.budget?.dailyCost);
+
+  const callsLeft: number[] = [];
+  if (sessionCalls !== null && sessionID) callsLeft.push(sessionCalls - (session?.calls ?? 0));
+  if (dailyCalls !== null) callsLeft.push(dailyCalls - day.calls);
+
+  const remainingCalls = callsLeft.length > 0 ? Math.max(0, Math.min(...callsLeft)) : null;
+  const remainingCost = dailyCost !== null ? Math.max(0, addCost(dailyCost, -day.cost)) : null;
+
+  let exhausted: BudgetLimit | null = null;
+  if (sessionCalls !== null && sessionID && (session?.calls ?? 0) >= sessionCalls) {
+    exhausted = "sessionCalls";
+  } else if (dailyCalls !== null && day.calls >= dailyCalls) {
+    exhausted = "dailyCalls";
+  } else if (remainingCost === 0) {
+    exhausted = "dailyCost";
+  }
+
+  return { date, day, session, remainingCalls, remainingCost, exhausted };
+}
+
+/** The limit a call with `model` would go over, or null when it fits the budget. */
+export function checkBudget(sessionID: string, model: string, now = Date.now()): BudgetRefusal | null {
+  if (!isBudgetEnabled()) {
+    return null;
+  }
+
+  const status = getBudgetStatus(sessionID, now);
+  const cost = estimateCost(model);
+  const budget = config.budget ?? {};
+
+  if (status.exhausted === "sessionCalls" || status.exhausted === "dailyCalls") {
+    const used = status.exhausted === "sessionCalls" ? (status.session?.calls ?? 0) : status.day.calls;
+    return { limit: status.exhausted, used, max: budget[status.exhausted] ?? 0, cost };
+  }
+  if (status.remainingCost !== null && cost > status.remainingCost) {
+    return { limit: "dailyCost", used: status.day.cost, max: budget.dailyCost ?? 0, cost };
+  }
+  return null;
+}
+
+/**
+ * Counts a finished Perplexity tool call against the budget. Cached
+ * `perplexity_search` results are free and not counted.
+ */
+export function recordBudgetCall(
+  sessionID: string,
+  tool: string,
+  args: Record<string, unknown> | undefined,
+  metadata: Record<string, unknown> | undefined,
+  now = Date.now()
+): void {
+  if (!isBudgetEnabled() || metadata?.cached === true) {
+    return;
+  }
+
+  // The API reports the model it used
+  const model = typeof metadata?.model === "string" && metadata.model ? metadata.model : getCallModel(tool, args);
+  const cost = estimateCost(model);
+
+  try {
+    const budget = readBudget();
+    const date = dayKey(now);
+    const day = (budget.days[date] ??= { calls: 0, cost: 0 });
+    day.calls++;
+    day.cost = addCost(day.cost, cost);
+
+    const session = (budget.sessions[sessionID] ??= { calls: 0, cost: 0, lastUsedAt: now });
+    session.calls++;
+    session.cost = addCost(session.cost, cost);
+    session.lastUsedAt = now;
+
+    prune(budget, now);
+    writeBudget(budget);
+  } catch (err) {
+    debug("budget.write_failed", { error: String(err) });
+  }
+}
+
+/** Sessions with recorded calls, most recently used first. */
+export function getSessionUsage(): Array<[sessionID: string, usage: SessionUsage]> {
+  return Object.entries(readBudget().sessions).sort((a, b) => b[1].lastUsedAt - a[1].lastUsedAt);
+}
+
+/**
+ * How much of a research hint the budget allows for the session. A
+ * research hint is downgraded to a search hint when fewer than a few calls,
+ * or too few dollars for a few calls with `researchModel`, are left.
+ */
+export function getHintBudget(sessionID: string, researchModel: string, now = Date.now()): HintBudget {
+  if (!isBudgetEnabled()) {
+    return "ok";
+  }
+
+  const status = getBudgetStatus(sessionID, now);
+  if (status.exhausted) {
+    return "exhausted";
+  }
+  if (
+    (status.remainingCalls !== null && status.remainingCalls < RESEARCH_QUERIES) ||
+    (status.remainingCost !== null && status.remainingCost < estimateCost(researchModel) * RESEARCH_QUERIES)
+  ) {
+    return "downgraded";
+  }
+  return "ok";
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
+
+function describeLimit(limit: BudgetLimit): string {
+  switch (limit) {
+    case "sessionCalls":
+      return "the Perplexity budget for this session";
+    case "dailyCalls":
+      return "today's Perplexity call budget";
+    case "dailyCost":
+      return "today's Perplexity spend budget";
+  }
+}
+
+/** The error the agent sees when a tool call is refused. */
+export function formatBudgetRefusal(refusal: BudgetRefusal): string {
+  const detail =
+    refusal.limit === "dailyCost"
+      ? `${formatCost(refusal.used)} of ${formatCost(refusal.max)} estimated is spent and this call would cost about ${formatCost(refusal.cost)}`
+      : `all ${refusal.max} calls are used`;
+  const until = refusal.limit === "sessionCalls" ? "for the rest of this session" : "until tomorrow";
+  return (
+    `perplexity-opencode refused this call: ${describeLimit(refusal.limit)} is exhausted (${detail}). ` +
+    `Do not call Perplexity tools ${until}. Answer with what you already have and tell the user ` +
+    "that the budget ran out; they can check it with `perplexity-opencode budget`."
+  );
+}
+
+/** Replaces the hint when no Perplexity call would be allowed. */
+export function getBudgetNudge(): string {
+  return `<perplexity-hint>
+This looks like a web lookup, but the Perplexity budget is exhausted and Perplexity tool calls will be refused.
+Answer from what you know or from earlier search results, and tell the user that the budget ran out.
+</perplexity-hint>`;
+}
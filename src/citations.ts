@@ -0,0 +1,253 @@
+import { CODE_PATTERN } from "./keywords.js";
+
+export interface Source {
+  url: string;
+  title?: string;
+}
+
+export interface NormalizedCitations {
+  text: string;
+  sources: Source[];
+  /** The answer came back without any source */
+  unsourced: boolean;
+}
+
+/** What a tool may already know about its sources, e.g. from its metadata. */
+export interface KnownSources {
+  citations?: unknown;
+  titles?: unknown;
+}
+
+// A trailing "Sources:", "## Citations", "**References**" section
+const SECTION_HEADING = /^[ \t]*(?:#{1,6}[ \t]*)?\**(?:sources|citations|references)\**[ \t]*:?\**[ \t]*$/gim;
+const URL_PATTERN = /https?:\/\/[^\s<>"'\])]+[^\s<>"'\]).,;:!?]/;
+const MARKDOWN_LINK = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/;
+const LIST_ITEM = /^\s*(?:\[(\d+)\]|(\d+)[.)]|[-*•])\s*:?\s*(.*)$/;
+
+// Inline markers: runs of [1], [1, 2] and [^1], 【1】 and <sup>1</sup>. A bracket
+// right after an identifier or another bracket is an index like `list[2]`.
+const MARKERS = /(?<![\w\])])(?:\[\^?\d+(?:\s*,\s*\d+)*\](?!\())+|【(\d+)[^】]*】|<sup>(\d+)<\/sup>/g;
+const BRACKET_MARKER = /\[\^?(\d+(?:\s*,\s*\d+)*)\]/g;
+// Duplicates merged into one source leave runs like "[1][1]"
+const MARKER_RUN = /(?<![\w\])])(?:\[\d+\])+/g;
+
+export const UNSOURCED_NOTE =
+  "[No sources were returned for this answer. Treat it as unverified and do not invent citations.]";
+
+function canonicalUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase();
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (key.startsWith("utm_")) parsed.searchParams.delete(key);
+    }
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+function parseSourceLine(line: string): { number?: number; source: Source } | null {
+  const item = LIST_ITEM.exec(line);
+  const rest = item ? item[3] : line;
+
+  const link = MARKDOWN_LINK.exec(rest);
+  if (link) {
+    return {
+      number: item ? Number(item[1] ?? item[2]) || undefined : undefined,
+      source: { url: link[2], title: link[1].trim() },
+    };
+  }
+
+  const url = URL_PATTERN.exec(rest);
+  if (!url) {
+    return null;
+  }
+
+  // Whatever surrounds the URL ("Title - https://...", "https://... (Title)") is its title.
+  // A domain we added ourselves is dropped so normalizing twice changes nothing.
+  const domain = domainOf(url[0]);
+  let title = rest
+    .replace(url[0], "")
+    .replace(/^[\s:|–—-]+|[\s:|–—-]+$/g, "")
+    .replace(/^\((.*)\)$/, "$1")
+    .replace(/^"(.*)"$/, "$1")
+    .trim();
+  if (title === domain) {
+    title = "";
+  } else if (title.endsWith(` (${domain})`)) {
+    title = title.slice(0, -` (${domain})`.length);
+  }
+
+  return {
+    number: item ? Number(item[1] ?? item[2]) || undefined : undefined,
+    source: { url: url[0], title: title || undefined },
+  };
+}
+
+function splitSourcesSection(text: string): { body: string; section: string | null } {
+  let last: RegExpExecArray | null = null;
+  for (const match of text.matchAll(SECTION_HEADING)) {
+    last = match as RegExpExecArray;
+  }
+  if (!last) {
+    return { body: text, section: null };
+  }
+  return {
+    body: text.slice(0, last.index),
+    section: text.slice(last.index + last[0].length),
+  };
+}
+
+// Some MCP servers return `{"content": "...", "citations": [...]}` as text
+function parseJsonOutput(text: string): { body: string; citations: unknown } | null {
+  if (!text.trimStart().startsWith("{")) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    const body = parsed.content ?? parsed.answer ?? parsed.text;
+    return typeof body === "string" ? { body, citations: parsed.citations } : null;
+  } catch {
+    return null;
+  }
+}
+
+function toSources(citations: unknown, titles: unknown): Source[] {
+  if (!Array.isArray(citations)) {
+    return [];
+  }
+  const titleMap = typeof titles === "object" && titles !== null ? (titles as Record<string, unknown>) : {};
+
+  return citations.flatMap((citation): Source[] => {
+    if (typeof citation === "string") {
+      const title = titleMap[citation];
+      return [{ url: citation, title: typeof title === "string" ? title : undefined }];
+    }
+    if (typeof citation === "object" && citation !== null && "url" in citation) {
+      const { url, title } = citation as { url: unknown; title?: unknown };
+      return typeof url === "string"
+        ? [{ url, title: typeof title === "string" ? title : undefined }]
+        : [];
+    }
+    return [];
+  });
+}
+
+/**
+ * Rewrites a Perplexity answer so it ends with one numbered, deduplicated
+ * "Sources" list of titles, domains and URLs, and its inline markers point at
+ * that list as `[n]`. Sources are taken from a trailing sources section, the
+ * tool's metadata, a JSON payload, or failing all of those, links in the text.
+ */
+export function normalizeCitations(output: string, known: KnownSources = {}): NormalizedCitations {
+  const json = parseJsonOutput(output);
+  const { body, section } = splitSourcesSection(json ? json.body : output);
+
+  // Sources in their original numbering
+  let numbered: Array<{ number: number; source: Source }> = [];
+
+  if (section !== null) {
+    numbered = section
+      .split("\n")
+      .map(parseSourceLine)
+      .filter((parsed): parsed is NonNullable<typeof parsed> => parsed !== null)
+      .map((parsed, i) => ({ number: parsed.number ?? i + 1, source: parsed.source }));
+  }
+
+  if (numbered.length === 0) {
+    numbered = toSources(json?.citations ?? known.citations, known.titles).map((source, i) => ({
+      number: i + 1,
+      source,
+    }));
+  }
+
+  if (numbered.length === 0) {
+    const links = body.match(new RegExp(`${MARKDOWN_LINK.source}|${URL_PATTERN.source}`, "g")) ?? [];
+    numbered = links
+      .map((link) => parseSourceLine(link))
+      .filter((parsed): parsed is NonNullable<typeof parsed> => parsed !== null)
+      .map((parsed, i) => ({ number: i + 1, source: parsed.source }));
+  }
+
+  const knownTitles = toSources(known.citations, known.titles);
+  const sources: Source[] = [];
+  const indexByUrl = new Map<string, number>();
+  const renumber = new Map<number, number>();
+
+  for (const { number, source } of numbered) {
+    const key = canonicalUrl(source.url);
+    let index = indexByUrl.get(key);
+    if (index === undefined) {
+      const title =
+        source.title ?? knownTitles.find((k) => canonicalUrl(k.url) === key)?.title;
+      sources.push({ url: source.url, title });
+      index = sources.length;
+      indexByUrl.set(key, index);
+    } else if (!sources[index - 1].title && source.title) {
+      sources[index - 1].title = source.title;
+    }
+    if (!renumber.has(number)) {
+      renumber.set(number, index);
+    }
+  }
+
+  const renumberMarker = (marker: string, list: string): string => {
+    const numbers = list.split(",").map((n) => Number(n.trim()));
+    if (!numbers.every((n) => renumber.has(n))) {
+      return marker;
+    }
+    return [...new Set(numbers.map((n) => renumber.get(n)))].map((n) => `[${n}]`).join("");
+  };
+
+  const rewriteProse = (prose: string): string =>
+    prose
+      .replace(MARKERS, (marker, bracket?: string, sup?: string) =>
+        bracket || sup
+          ? renumberMarker(marker, bracket ?? sup!)
+          : marker.replace(BRACKET_MARKER, (single, list: string) => renumberMarker(single, list))
+      )
+      .replace(MARKER_RUN, (run) => run.replace(/(\[\d+\])\1+/g, "$1"));
+
+  // Brackets inside inline or fenced code are code, not citations
+  const code = new RegExp(CODE_PATTERN.source, "g");
+  let rewritten = "";
+  let last = 0;
+  for (const match of body.matchAll(code)) {
+    rewritten += rewriteProse(body.slice(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+  rewritten += rewriteProse(body.slice(last));
+
+  if (sources.length === 0) {
+    return {
+      text: `${rewritten.trimEnd()}\n\n${UNSOURCED_NOTE}`,
+      sources,
+      unsourced: true,
+    };
+  }
+
+  const list = sources
+    .map(({ url, title }, i) =>
+      title ? `[${i + 1}] ${title} (${domainOf(url)}) - ${url}` : `[${i + 1}] ${domainOf(url)} - ${url}`
+    )
+    .join("\n");
+
+  return {
+    text: `${rewritten.trimEnd()}\n\nSources:\n${list}`,
+    sources,
+    unsourced: false,
+  };
+}
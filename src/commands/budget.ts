@@ -0,0 +1,81 @@
+import {
+  formatCost,
+  getBudgetFilePath,
+  getBudgetStatus,
+  getSessionUsage,
+  isBudgetEnabled,
+} from "../budget.js";
+import type { BudgetStatus } from "../budget.js";
+import { config } from "../config.js";
+
+export interface BudgetOptions {
+  json: boolean;
+}
+
+const RECENT_SESSIONS = 10;
+
+function describeCalls(used: number, limit: number | undefined): string {
+  return limit ? `${used} of ${limit} (${Math.max(0, limit - used)} left)` : `${used} (no limit)`;
+}
+
+function describeCost(used: number, limit: number | undefined): string {
+  return limit
+    ? `${formatCost(used)} of ${formatCost(limit)} (${formatCost(Math.max(0, limit - used))} left)`
+    : `${formatCost(used)} (no limit)`;
+}
+
+function printStatus(status: BudgetStatus): void {
+  const budget = config.budget ?? {};
+
+  console.log(`\n Perplexity Budget (${status.date})\n`);
+  console.log(`  Enabled:        ${isBudgetEnabled() ? "yes" : "no (budget.enabled is false)"}`);
+  console.log(`  Calls today:    ${describeCalls(status.day.calls, budget.dailyCalls)}`);
+  console.log(`  Spend today:    ${describeCost(status.day.cost, budget.dailyCost)} estimated`);
+  console.log(`  Per session:    ${budget.sessionCalls ? `${budget.sessionCalls} calls` : "no limit"}`);
+  if (status.exhausted) {
+    console.log(`\n  budget.${status.exhausted} is used up: Perplexity tool calls are refused.`);
+  }
+
+  const sessions = getSessionUsage().slice(0, RECENT_SESSIONS);
+  if (sessions.length > 0) {
+    console.log("\n Recent sessions\n");
+    for (const [sessionID, usage] of sessions) {
+      const lastUsed = new Date(usage.lastUsedAt).toLocaleString();
+      console.log(
+        `  ${sessionID}  ${describeCalls(usage.calls, budget.sessionCalls)}, ${formatCost(usage.cost)}, last call ${lastUsed}`
+      );
+    }
+  }
+
+  console.log(`\n  Counted in ${getBudgetFilePath()}\n`);
+}
+
+export async function budget(options: BudgetOptions): Promise<number> {
+  const status = getBudgetStatus();
+
+  if (options.json) {
+    const { sessionCalls = 0, dailyCalls = 0, dailyCost = 0 } = config.budget ?? {};
+    const { date, day, remainingCalls, remainingCost, exhausted } = status;
+    const sessions = Object.fromEntries(getSessionUsage());
+    console.log(
+      JSON.stringify(
+        {
+          enabled: isBudgetEnabled(),
+          limits: { sessionCalls, dailyCalls, dailyCost },
+          date,
+          day,
+          remainingCalls,
+          remainingCost,
+          exhausted,
+          sessions,
+        },
+        null,
+        2
+      )
+    );
+    return 0;
+  }
+
+  printStatus(status);
+  return 0;
+}
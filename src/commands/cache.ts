@@ -0,0 +1,36 @@
+import { clearCache, formatAge, getCacheStats, isCacheEnabled } from "../services/cache.js";
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export async function cacheStats(): Promise<number> {
+  const stats = getCacheStats();
+  const now = Date.now();
+  const lookups = stats.hits + stats.misses;
+
+  console.log("\n Perplexity Search Cache\n");
+  console.log(`  File:      ${stats.path}`);
+  console.log(`  Enabled:   ${isCacheEnabled() ? "yes" : "no (cache.enabled is false)"}`);
+  console.log(`  Entries:   ${stats.entries} (${stats.expired} expired)`);
+  console.log(`  Size:      ${formatBytes(stats.bytes)}`);
+  console.log(
+    `  Hit rate:  ${lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : "-"} (${stats.hits} hits, ${stats.misses} misses)`
+  );
+  if (stats.oldest !== null && stats.newest !== null) {
+    console.log(`  Oldest:    ${formatAge(now - stats.oldest)} ago`);
+    console.log(`  Newest:    ${formatAge(now - stats.newest)} ago`);
+  }
+  console.log("");
+  return 0;
+}
+
+export async function cacheClear(options: { expiredOnly: boolean }): Promise<number> {
+  const removed = clearCache({ expiredOnly: options.expiredOnly });
+  console.log(
+    options.expiredOnly
+      ? `Removed ${removed} expired cache entr${removed === 1 ? "y" : "ies"}`
+      : `Cleared the search cache (${removed} entr${removed === 1 ? "y" : "ies"})`
+  );
+  return 0;
+}
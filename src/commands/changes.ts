@@ -0,0 +1,386 @@
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+
+import { OPENCODE_CONFIG_DIR } from "./shared.js";
+
+const BACKUPS_DIR = join(OPENCODE_CONFIG_DIR, "perplexity-backups");
+const MANIFEST_FILE = "manifest.json";
+const MAX_BACKUP_SETS = 10;
+const DIFF_CONTEXT = 3;
+
+interface StagedFile {
+  /** Content on disk when the file was first staged; null when it didn't exist */
+  before: string | null;
+  /** Null when the file is to be deleted */
+  after: string | null;
+  /** Mode to write the file with; for a deletion, the mode to put it back with */
+  mode?: number;
+  /** Diffs say that the file changes without showing its content */
+  secret: boolean;
+}
+
+/** Edits to files, held in memory until they are applied together. */
+export interface FileChanges {
+  files: Map<string, StagedFile>;
+}
+
+export interface StageOptions {
+  mode?: number;
+  secret?: boolean;
+}
+
+interface BackupEntry {
+  path: string;
+  /** File name inside the backup set; null when the file didn't exist before */
+  backup: string | null;
+  mode?: number;
+}
+
+interface BackupManifest {
+  created: string;
+  entries: BackupEntry[];
+}
+
+export interface RestoreResult {
+  created: string;
+  restored: string[];
+  removed: string[];
+}
+
+export function getBackupsDir(): string {
+  return BACKUPS_DIR;
+}
+
+export function createFileChanges(): FileChanges {
+  return { files: new Map() };
+}
+
+/** The file's content with staged edits applied. Throws like readFileSync when there is none. */
+export function readStaged(changes: FileChanges, path: string): string {
+  const staged = changes.files.get(path);
+  if (staged?.after === null) {
+    throw new Error(`ENOENT: no such file or directory, open '${path}' (staged for deletion)`);
+  }
+  return staged ? staged.after : readFileSync(path, "utf-8");
+}
+
+export function existsStaged(changes: FileChanges, path: string): boolean {
+  const staged = changes.files.get(path);
+  return staged ? staged.after !== null : existsSync(path);
+}
+
+export function stageFile(
+  changes: FileChanges,
+  path: string,
+  content: string,
+  options: StageOptions = {}
+): void {
+  const staged = changes.files.get(path);
+  changes.files.set(path, {
+    before: staged ? staged.before : existsSync(path) ? readFileSync(path, "utf-8") : null,
+    after: content,
+    mode: options.mode ?? staged?.mode,
+    secret: options.secret ?? staged?.secret ?? false,
+  });
+}
+
+/** Stages deleting the file. Its content is backed up like any other change. */
+export function stageRemoval(changes: FileChanges, path: string, options: Pick<StageOptions, "secret"> = {}): void {
+  const staged = changes.files.get(path);
+  changes.files.set(path, {
+    before: staged ? staged.before : existsSync(path) ? readFileSync(path, "utf-8") : null,
+    after: null,
+    mode: existsSync(path) ? statSync(path).mode & 0o777 : staged?.mode,
+    secret: options.secret ?? staged?.secret ?? false,
+  });
+}
+
+function pendingFiles(changes: FileChanges): Array<[string, StagedFile]> {
+  return [...changes.files].filter(([, file]) => file.after !== file.before);
+}
+
+export function hasPendingChanges(changes: FileChanges): boolean {
+  return pendingFiles(changes).length > 0;
+}
+
+function splitLines(content: string): string[] {
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+// Longest common subsequence; config files are small enough for the full table
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lcs = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ op: " ", text: before[i++] });
+      j++;
+    } else if (i < before.length && (j === after.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: "-", text: before[i++] });
+    } else {
+      lines.push({ op: "+", text: after[j++] });
+    }
+  }
+  return lines;
+}
+
+function formatHunks(lines: DiffLine[]): string[] {
+  // Ranges of lines to print: each change with DIFF_CONTEXT lines around it
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.op === " ") return;
+    const start = Math.max(0, index - DIFF_CONTEXT);
+    const end = Math.min(lines.length, index + DIFF_CONTEXT + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  const output: string[] = [];
+  for (const [start, end] of ranges) {
+    const beforeStart = lines.slice(0, start).filter((l) => l.op !== "+").length;
+    const afterStart = lines.slice(0, start).filter((l) => l.op !== "-").length;
+    const hunk = lines.slice(start, end);
+    const beforeCount = hunk.filter((l) => l.op !== "+").length;
+    const afterCount = hunk.filter((l) => l.op !== "-").length;
+
+    // Empty sides point at the line before them, as in `diff -u`
+    output.push(
+      `@@ -${beforeCount ? beforeStart + 1 : beforeStart},${beforeCount} ` +
+        `+${afterCount ? afterStart + 1 : afterStart},${afterCount} @@`
+    );
+    output.push(...hunk.map((l) => `${l.op}${l.text}`));
+  }
+  return output;
+}
+
+/** A unified diff of every file the changes would create or modify. */
+export function formatDiff(changes: FileChanges): string {
+  const output: string[] = [];
+
+  for (const [path, file] of pendingFiles(changes)) {
+    output.push(`--- ${file.before === null ? "/dev/null" : path}`);
+    output.push(`+++ ${file.after === null ? "/dev/null" : path}`);
+    if (file.secret) {
+      output.push(
+        file.before === null
+          ? "(new file, content not shown)"
+          : file.after === null
+            ? "(file deleted, content not shown)"
+            : "(content changes, not shown)"
+      );
+    } else {
+      output.push(...formatHunks(diffLines(splitLines(file.before ?? ""), splitLines(file.after ?? ""))));
+    }
+  }
+
+  return output.join("\n");
+}
+
+function writeFile(path: string, content: string, mode?: number): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content, mode !== undefined ? { mode } : {});
+  if (mode !== undefined) {
+    // `mode` only applies when the file is created
+    chmodSync(path, mode);
+  }
+}
+
+function listBackupSets(): string[] {
+  if (!existsSync(BACKUPS_DIR)) {
+    return [];
+  }
+  // Set names are timestamps, so they sort by age
+  return readdirSync(BACKUPS_DIR)
+    .filter((name) => existsSync(join(BACKUPS_DIR, name, MANIFEST_FILE)))
+    .sort();
+}
+
+function createBackup(files: Array<[string, StagedFile]>): string {
+  const created = new Date().toISOString();
+  const name = created.replace(/[:.]/g, "-");
+  // Two changes in the same millisecond still get a set each
+  let dir = join(BACKUPS_DIR, name);
+  for (let i = 1; existsSync(dir); i++) {
+    dir = join(BACKUPS_DIR, `${name}-${i}`);
+  }
+  // Backups may hold the API key
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  const entries = files.map(([path, file], index): BackupEntry => {
+    if (file.before === null) {
+      return { path, backup: null };
+    }
+    const backup = String(index);
+    writeFile(join(dir, backup), file.before, 0o600);
+    return { path, backup, mode: statSync(path).mode & 0o777 };
+  });
+
+  const manifest: BackupManifest = { created, entries };
+  writeFileSync(join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+  for (const old of listBackupSets().slice(0, -MAX_BACKUP_SETS)) {
+    rmSync(join(BACKUPS_DIR, old), { recursive: true, force: true });
+  }
+  return dir;
+}
+
+function rollBack(written: Array<[string, StagedFile]>): string[] {
+  const failed: string[] = [];
+  for (const [path, file] of [...written].reverse()) {
+    try {
+      if (file.before === null) {
+        // The write that failed may not have created the file
+        if (existsSync(path)) rmSync(path);
+      } else if (file.after === null) {
+        writeFile(path, file.before, file.mode);
+      } else {
+        writeFileSync(path, file.before);
+      }
+    } catch {
+      failed.push(path);
+    }
+  }
+  return failed;
+}
+
+/**
+ * Backs up the files the changes touch, then writes them all. If any write
+ * fails, the files already written are put back and the error is rethrown.
+ * Returns the backup set's directory, or null when nothing changes.
+ */
+export function applyChanges(changes: FileChanges): string | null {
+  const files = pendingFiles(changes);
+  if (files.length === 0) {
+    return null;
+  }
+
+  const backupDir = createBackup(files);
+  const written: Array<[string, StagedFile]> = [];
+
+  try {
+    for (const entry of files) {
+      const [path, file] = entry;
+      written.push(entry);
+      if (file.after === null) {
+        rmSync(path, { force: true });
+      } else {
+        writeFile(path, file.after, file.mode);
+      }
+    }
+  } catch (err) {
+    const failed = rollBack(written);
+    const message = err instanceof Error ? err.message : String(err);
+    if (failed.length > 0) {
+      throw new Error(`${message}; could not roll back ${failed.join(", ")}, restore them from ${backupDir}`);
+    }
+    // Nothing changed, so `restore` should go back to the install before this one
+    rmSync(backupDir, { recursive: true, force: true });
+    throw new Error(`${message}; no files were changed`);
+  }
+
+  return backupDir;
+}
+
+/** Applies the changes for `command`, reporting the backup or the failure. Returns false on failure. */
+export function writeChanges(changes: FileChanges, command: string): boolean {
+  try {
+    const backupDir = applyChanges(changes);
+    if (backupDir) {
+      console.log(`\n  Backed up the previous files to ${backupDir}`);
+      console.log(`  Undo this ${command} with: perplexity-opencode restore`);
+    }
+    return true;
+  } catch (err) {
+    console.error(`\n  Failed to write the changes: ${err instanceof Error ? err.message : String(err)}`);
+    return false;
+  }
+}
+
+export function printDryRun(changes: FileChanges, command: string): void {
+  console.log("\n" + "-".repeat(50));
+  if (!hasPendingChanges(changes)) {
+    console.log("\n Dry run: no files would change.\n");
+    return;
+  }
+  console.log(`\n Dry run: ${command} would make these changes\n`);
+  console.log(formatDiff(changes));
+  console.log("");
+}
+
+/** Puts back the files from the most recent backup set, then deletes the set. */
+export function restoreLatestBackup(): RestoreResult | null {
+  const latest = listBackupSets().pop();
+  if (!latest) {
+    return null;
+  }
+
+  const dir = join(BACKUPS_DIR, latest);
+  const manifest = JSON.parse(readFileSync(join(dir, MANIFEST_FILE), "utf-8")) as BackupManifest;
+  const result: RestoreResult = { created: manifest.created, restored: [], removed: [] };
+
+  for (const entry of manifest.entries) {
+    if (entry.backup === null) {
+      if (existsSync(entry.path)) {
+        rmSync(entry.path);
+        result.removed.push(entry.path);
+      }
+    } else {
+      writeFile(entry.path, readFileSync(join(dir, entry.backup), "utf-8"), entry.mode);
+      result.restored.push(entry.path);
+    }
+  }
+
+  rmSync(dir, { recursive: true, force: true });
+  return result;
+}
+
+export async function restore(): Promise<number> {
+  let result: RestoreResult | null;
+  try {
+    result = restoreLatestBackup();
+  } catch (err) {
+    console.error(`Failed to restore the backup: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+
+  if (!result) {
+    console.log(`No backups found in ${BACKUPS_DIR}`);
+    return 0;
+  }
+
+  console.log(`Restored the files backed up at ${result.created}`);
+  for (const path of result.restored) {
+    console.log(`  Restored ${path}`);
+  }
+  for (const path of result.removed) {
+    console.log(`  Deleted ${path} (it didn't exist before)`);
+  }
+  return 0;
+}
@@ -0,0 +1,84 @@
+import { loadConfig } from "../config.js";
+import type { ConfigOrigin } from "../config.js";
+import { formatIssue, getJsonSchema } from "../schema.js";
+
+function maskSecret(value: string): string {
+  if (value.length <= 8) {
+    return "*".repeat(value.length);
+  }
+  return `${value.slice(0, 5)}…${value.slice(-4)}`;
+}
+
+function formatOrigin(origin: ConfigOrigin | undefined): string {
+  if (!origin) {
+    return "";
+  }
+  return origin.location ? `${origin.source} (${origin.location})` : origin.source;
+}
+
+// Additive arrays record an origin per item, other arrays one for the whole array
+function findOrigin(origins: Record<string, ConfigOrigin>, path: string): ConfigOrigin | undefined {
+  return origins[path] ?? origins[path.replace(/\[\d+\]$/, "")];
+}
+
+function flatten(
+  value: unknown,
+  prefix: string,
+  out: Array<[string, unknown]>
+): void {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      out.push([prefix, "[]"]);
+    }
+    value.forEach((item, i) => flatten(item, `${prefix}[${i}]`, out));
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out.push([prefix, value]);
+  }
+}
+
+export async function configShow(directory: string): Promise<number> {
+  const { config, origins, issues, globalFile, projectFile } = loadConfig(directory);
+
+  console.log("\n Perplexity Effective Configuration\n");
+  console.log(`  Global file:  ${globalFile ?? "(none)"}`);
+  console.log(`  Project file: ${projectFile ?? "(none)"}`);
+  console.log("");
+
+  const rows: Array<[string, unknown]> = [];
+  flatten(config, "", rows);
+
+  const display = rows.map(([path, value]) => {
+    if (path === "apiKey" && typeof value === "string") {
+      return value ? JSON.stringify(maskSecret(value)) : "(not set)";
+    }
+    return value === "[]" ? "[]" : JSON.stringify(value);
+  });
+
+  const pathWidth = Math.max(...rows.map(([path]) => path.length));
+  const valueWidth = Math.max(...display.map((d) => d.length));
+
+  rows.forEach(([path], i) => {
+    console.log(
+      `  ${path.padEnd(pathWidth)}  ${display[i].padEnd(valueWidth)}  ${formatOrigin(findOrigin(origins, path))}`
+    );
+  });
+
+  if (issues.length > 0) {
+    console.log("\nIgnored invalid values:");
+    for (const issue of issues) {
+      console.log(`  ${issue.file}: ${formatIssue(issue)}`);
+    }
+  }
+
+  console.log("\nPrecedence (lowest to highest): default, env, global, project\n");
+  return issues.length > 0 ? 1 : 0;
+}
+
+export async function printSchema(): Promise<number> {
+  console.log(JSON.stringify(getJsonSchema(), null, 2));
+  return 0;
+}
@@ -0,0 +1,299 @@
+import { readFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+
+import { config, loadProjectConfig } from "../config.js";
+import { extractDirectives } from "../directives.js";
+import { classify, removeCodeBlocks } from "../keywords.js";
+import { getLanguageName } from "../languages.js";
+import { applySessionDirectives, evaluateMessage } from "../pipeline.js";
+import type { EvaluateOptions, Evaluation } from "../pipeline.js";
+import { forgetSession } from "../session.js";
+import { loadTemplates } from "../templates.js";
+
+export interface DetectOptions {
+  message?: string;
+  /** A JSONL file of `{"message": "...", "expected": "none" | "search" | "research"}` */
+  corpus?: string;
+  json: boolean;
+}
+
+const LABELS = ["none", "search", "research"] as const;
+type Label = (typeof LABELS)[number];
+
+interface CorpusEntry {
+  line: number;
+  message: string;
+  expected: Label;
+}
+
+interface LabelMetrics {
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface CorpusReport {
+  total: number;
+  /** confusion[expected][detected] */
+  confusion: Record<Label, Record<Label, number>>;
+  metrics: Record<"search" | "research" | "hint", LabelMetrics>;
+  misses: Array<{ line: number; message: string; expected: Label; detected: Label }>;
+}
+
+const REPL_SESSION = "detect-repl";
+
+function loadConfigForDetection(): void {
+  loadProjectConfig(process.cwd());
+  loadTemplates();
+}
+
+// The same steps as the chat.message hook, for one message
+function evaluate(sessionID: string, input: string, options: EvaluateOptions = {}) {
+  const { text, directives } = extractDirectives(input);
+  applySessionDirectives(sessionID, directives);
+  const evaluation = text.trim() ? evaluateMessage(sessionID, text, directives, options) : null;
+  return { text, directives, evaluation };
+}
+
+function toLabel(evaluation: Evaluation | null): Label {
+  return evaluation?.outcome === "nudge" ? evaluation.match.type : "none";
+}
+
+function formatWeight(weight: number): string {
+  return `${weight >= 0 ? "+" : ""}${weight.toFixed(2)}`;
+}
+
+function describeOutcome(evaluation: Evaluation): string {
+  switch (evaluation.outcome) {
+    case "suppressed":
+      return evaluation.reason === "directive"
+        ? "no hint (suppressed by !noweb)"
+        : "no hint (suppressed for this session)";
+    case "no-match":
+      return config.keywords?.enabled === false
+        ? "no hint (keywords.enabled is false)"
+        : "no hint (score below the threshold)";
+    case "cooldown":
+      return `no hint (${evaluation.match.type} hint is in its cooldown and nudges.repeat is "none")`;
+    case "nudge": {
+      const { match, route } = evaluation;
+      const source = evaluation.forced ? "forced by a directive" : `category ${match.category}`;
+      const hint = `${evaluation.level} ${match.type} hint (${source}) -> ${route.tool}, model ${route.model}`;
+      if (evaluation.budget === "exhausted") {
+        return `budget exhausted hint instead of the ${hint}`;
+      }
+      return evaluation.budget === "downgraded" ? `${hint}, downgraded from research by the budget` : hint;
+    }
+  }
+}
+
+/** Prints how the `chat.message` hook would handle a message, and why. */
+function explain(sessionID: string, input: string): void {
+  const { text, directives, evaluation } = evaluate(sessionID, input);
+
+  console.log("");
+  if (directives.length > 0) {
+    console.log(`  Directives:  ${directives.map((d) => d.text).join(", ")}`);
+  }
+  if (!evaluation) {
+    console.log("  Result:      no hint (the message is only directives)\n");
+    return;
+  }
+
+  const cleaned = removeCodeBlocks(text);
+  if (cleaned !== text) {
+    console.log(`  Without code: ${JSON.stringify(cleaned.trim())}`);
+  }
+
+  const classification = classify(text);
+  if (classification.language) {
+    console.log(`  Language:    ${getLanguageName(classification.language)}`);
+  }
+
+  if (classification.signals.length === 0) {
+    console.log("  Signals:     (none)");
+  } else {
+    console.log("  Signals:");
+    const width = Math.max(...classification.signals.map((s) => s.name.length));
+    for (const signal of classification.signals) {
+      const category = signal.category ? `  ${signal.category}` : "";
+      console.log(
+        `    ${formatWeight(signal.weight).padStart(6)}  ${signal.name.padEnd(width)}  ${JSON.stringify(signal.text)}${category}`
+      );
+    }
+  }
+  console.log(`  Score:       ${classification.score} (threshold ${classification.threshold})`);
+  console.log(`  Result:      ${describeOutcome(evaluation)}`);
+
+  if (evaluation.outcome === "nudge") {
+    if (evaluation.temporal) {
+      console.log(`  Time frame:  ${evaluation.temporal.expression}`);
+    }
+    console.log("\n" + evaluation.text.replace(/^/gm, "    "));
+  }
+  console.log("");
+}
+
+function repl(): Promise<number> {
+  console.log("\nType a message to see how it is detected. Messages share one session,");
+  console.log("so cooldowns and session directives apply. .reset starts a new session, .exit quits.\n");
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: "detect> " });
+  rl.prompt();
+
+  rl.on("line", (line) => {
+    const input = line.trim();
+    if (input === ".exit") {
+      rl.close();
+      return;
+    }
+    if (input === ".reset") {
+      forgetSession(REPL_SESSION);
+      console.log("Started a new session");
+    } else if (input) {
+      explain(REPL_SESSION, input);
+    }
+    rl.prompt();
+  });
+
+  return new Promise((resolve) => rl.on("close", () => resolve(0)));
+}
+
+function readCorpus(path: string): CorpusEntry[] {
+  const entries: CorpusEntry[] = [];
+  const lines = readFileSync(path, "utf-8").split("\n");
+
+  lines.forEach((raw, i) => {
+    if (!raw.trim()) return;
+    const line = i + 1;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error(`line ${line}: not valid JSON`);
+    }
+
+    const { message, expected } = (parsed ?? {}) as { message?: unknown; expected?: unknown };
+    if (typeof message !== "string") {
+      throw new Error(`line ${line}: "message" must be a string`);
+    }
+    if (!LABELS.includes(expected as Label)) {
+      throw new Error(`line ${line}: "expected" must be one of ${LABELS.join(", ")}`);
+    }
+    entries.push({ line, message, expected: expected as Label });
+  });
+
+  return entries;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+export function scoreCorpus(entries: CorpusEntry[]): CorpusReport {
+  const confusion = Object.fromEntries(
+    LABELS.map((expected) => [expected, Object.fromEntries(LABELS.map((l) => [l, 0]))])
+  ) as CorpusReport["confusion"];
+  const misses: CorpusReport["misses"] = [];
+
+  entries.forEach((entry, i) => {
+    // A fresh session per message, so no cooldown carries over, and no budget,
+    // so the same corpus scores the same on any day and machine
+    const sessionID = `detect-corpus-${i}`;
+    const detected = toLabel(evaluate(sessionID, entry.message, { ignoreBudget: true }).evaluation);
+    forgetSession(sessionID);
+
+    confusion[entry.expected][detected]++;
+    if (detected !== entry.expected) {
+      misses.push({ line: entry.line, message: entry.message, expected: entry.expected, detected });
+    }
+  });
+
+  const sum = (expected: readonly Label[], detected: readonly Label[]) =>
+    expected.reduce((total, e) => total + detected.reduce((n, d) => n + confusion[e][d], 0), 0);
+
+  const metricsFor = (label: Label): LabelMetrics => ({
+    precision: ratio(confusion[label][label], sum(LABELS, [label])),
+    recall: ratio(confusion[label][label], sum([label], LABELS)),
+  });
+
+  // For "any hint", a search hint where research was expected still counts
+  const hints = ["search", "research"] as const;
+
+  return {
+    total: entries.length,
+    confusion,
+    metrics: {
+      search: metricsFor("search"),
+      research: metricsFor("research"),
+      hint: {
+        precision: ratio(sum(hints, hints), sum(LABELS, hints)),
+        recall: ratio(sum(hints, hints), sum(hints, LABELS)),
+      },
+    },
+    misses,
+  };
+}
+
+function percent(value: number | null): string {
+  return value === null ? "-" : `${Math.round(value * 100)}%`;
+}
+
+function printCorpusReport(report: CorpusReport): void {
+  console.log(`\n Detection Corpus (${report.total} messages)\n`);
+
+  console.log(`  ${"expected \\ detected".padEnd(20)}${LABELS.map((l) => l.padStart(10)).join("")}`);
+  for (const expected of LABELS) {
+    const row = LABELS.map((detected) => String(report.confusion[expected][detected]).padStart(10));
+    console.log(`  ${expected.padEnd(20)}${row.join("")}`);
+  }
+
+  console.log(`\n  ${"".padEnd(10)}${"precision".padStart(10)}${"recall".padStart(10)}`);
+  for (const [name, metrics] of [
+    ["search", report.metrics.search],
+    ["research", report.metrics.research],
+    ["any hint", report.metrics.hint],
+  ] as const) {
+    console.log(
+      `  ${name.padEnd(10)}${percent(metrics.precision).padStart(10)}${percent(metrics.recall).padStart(10)}`
+    );
+  }
+
+  if (report.misses.length > 0) {
+    console.log(`\n Misclassified (${report.misses.length})\n`);
+    for (const miss of report.misses) {
+      const preview = miss.message.length > 70 ? `${miss.message.slice(0, 69)}…` : miss.message;
+      console.log(`  line ${miss.line}: expected ${miss.expected}, detected ${miss.detected}: ${JSON.stringify(preview)}`);
+    }
+  }
+  console.log("");
+}
+
+export async function detect(options: DetectOptions): Promise<number> {
+  loadConfigForDetection();
+
+  if (options.corpus) {
+    let entries: CorpusEntry[];
+    try {
+      entries = readCorpus(options.corpus);
+    } catch (err) {
+      console.error(`Cannot read ${options.corpus}: ${err instanceof Error ? err.message : String(err)}`);
+      return 1;
+    }
+
+    const report = scoreCorpus(entries);
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printCorpusReport(report);
+    }
+    return 0;
+  }
+
+  if (options.message !== undefined) {
+    explain("detect", options.message);
+    return 0;
+  }
+
+  return repl();
+}
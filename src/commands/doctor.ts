@@ -0,0 +1,525 @@
+import { readFileSync, existsSync, accessSync, statSync, constants } from "node:fs";
+import { join, delimiter, isAbsolute } from "node:path";
+
+import {
+  AGENTS_MD_PATH,
+  AGENTS_BLOCK_VERSION,
+  findOpencodeConfig,
+  isPluginEntry,
+  findAgentsMdBlock,
+  findPerplexityConfigFiles,
+} from "./shared.js";
+import { parse } from "../jsonc.js";
+import { validateConfig, formatIssue } from "../schema.js";
+import { loadConfig } from "../config.js";
+import type { ConfigOrigin, PerplexityConfig } from "../config.js";
+import { compileTemplateFiles } from "../templates.js";
+import { getSecretsFilePath } from "../secrets.js";
+import { findPlaintextKeys } from "./secrets.js";
+import { CONFIG_VERSION } from "./migrations.js";
+import { formatMcpUrl, parseMcpUrl } from "../mcp.js";
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+const API_KEY_SETTINGS = ["apiKey", "apiKeyFile", "apiKeyCommand"];
+
+interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  fix?: string;
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: "[PASS]",
+  warn: "[WARN]",
+  fail: "[FAIL]",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readJsonc(path: string): { value?: unknown; error?: string } {
+  try {
+    const content = readFileSync(path, "utf-8");
+    return { value: parse(content) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function findExecutable(command: string): string | null {
+  const candidates = isAbsolute(command)
+    ? [command]
+    : (process.env.PATH ?? "")
+        .split(delimiter)
+        .filter(Boolean)
+        .map((dir) => join(dir, command));
+
+  const extensions =
+    process.platform === "win32"
+      ? ["", ...(process.env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")]
+      : [""];
+
+  for (const candidate of candidates) {
+    for (const ext of extensions) {
+      try {
+        accessSync(candidate + ext, constants.X_OK);
+        return candidate + ext;
+      } catch {
+        // Not here, keep looking
+      }
+    }
+  }
+
+  return null;
+}
+
+function checkPerplexityConfig(results: CheckResult[]): Record<string, unknown> {
+  const paths = findPerplexityConfigFiles();
+
+  if (paths.length === 0) {
+    results.push({
+      name: "Perplexity config",
+      status: "warn",
+      message: "No perplexity.json or perplexity.jsonc found; relying on environment variables",
+      fix: "Run `perplexity-opencode install` to create ~/.config/opencode/perplexity.json",
+    });
+    return {};
+  }
+
+  const [path] = paths;
+
+  if (paths.length > 1) {
+    results.push({
+      name: "Perplexity config",
+      status: "warn",
+      message: `Both ${paths.join(" and ")} exist; only ${path} is read`,
+      fix: "Merge the files and delete the one that is ignored",
+    });
+  }
+
+  const { value, error } = readJsonc(path);
+
+  if (error !== undefined) {
+    results.push({
+      name: "Perplexity config",
+      status: "fail",
+      message: `${path} could not be parsed: ${error}`,
+      fix: "Fix the syntax error; until then the plugin falls back to an empty config",
+    });
+    return {};
+  }
+
+  const { issues } = validateConfig(value);
+
+  if (issues.length > 0) {
+    results.push({
+      name: "Perplexity config",
+      status: "fail",
+      message: `${path} does not match the schema: ${issues.map(formatIssue).join("; ")}`,
+      fix: "Fix these keys; invalid values are ignored. Add \"$schema\" for editor validation (see README)",
+    });
+  } else {
+    results.push({
+      name: "Perplexity config",
+      status: "pass",
+      message: `${path} is valid`,
+    });
+  }
+
+  return isRecord(value) ? value : {};
+}
+
+function checkConfigVersion(results: CheckResult[], fileConfig: Record<string, unknown>): void {
+  // Missing or unparseable files are reported by checkPerplexityConfig
+  if (Object.keys(fileConfig).length === 0) {
+    return;
+  }
+
+  const version = typeof fileConfig.configVersion === "number" ? fileConfig.configVersion : 0;
+  if (version < CONFIG_VERSION) {
+    results.push({
+      name: "Config version",
+      status: "warn",
+      message: `perplexity.json is at version ${version}, current is ${CONFIG_VERSION}`,
+      fix: "Run `perplexity-opencode upgrade` to migrate it",
+    });
+  }
+}
+
+// loadConfig gives apiKey the origin of the setting it was resolved from
+function describeKeySource(config: PerplexityConfig, origins: Record<string, ConfigOrigin>): string {
+  const origin = origins.apiKey;
+  const location =
+    origin.source === "env" ? `${origin.location} environment variable` : (origin.location ?? origin.source);
+
+  if (origins.apiKeyFile === origin) {
+    return `${config.apiKeyFile} (apiKeyFile in ${location})`;
+  }
+  if (origins.apiKeyCommand === origin) {
+    return `the output of apiKeyCommand in ${location}`;
+  }
+  return location;
+}
+
+function checkApiKey(results: CheckResult[]): void {
+  const { config, origins, issues } = loadConfig(process.cwd());
+  const keyIssue = issues.find((issue) => API_KEY_SETTINGS.includes(issue.path));
+
+  if (keyIssue) {
+    results.push({
+      name: "API key",
+      status: "fail",
+      message: `Could not resolve ${keyIssue.path} from ${keyIssue.file}: ${keyIssue.message}`,
+      fix: "Fix the reference, or run `perplexity-opencode install` to store the key again",
+    });
+    return;
+  }
+
+  const origin = origins.apiKey;
+  if (!config.apiKey || !origin) {
+    results.push({
+      name: "API key",
+      status: "fail",
+      message: "No apiKey, apiKeyFile or apiKeyCommand in perplexity.json, and no PERPLEXITY_API_KEY; the plugin is disabled",
+      fix: "Get a key from https://www.perplexity.ai/settings/api and run `perplexity-opencode install`",
+    });
+    return;
+  }
+
+  const source = describeKeySource(config, origins);
+  const envKey = process.env.PERPLEXITY_API_KEY ?? "";
+
+  if (origin.source !== "env" && envKey && envKey !== config.apiKey) {
+    results.push({
+      name: "API key",
+      status: "warn",
+      message: `${source} and PERPLEXITY_API_KEY hold different keys; the file wins`,
+      fix: "Remove one of them to avoid confusion",
+    });
+  }
+
+  for (const { path } of findPlaintextKeys()) {
+    results.push({
+      name: "API key",
+      status: "warn",
+      message: `${path} contains the API key in plaintext`,
+      fix: "Run `perplexity-opencode secrets migrate` to move it to a private key file",
+    });
+  }
+
+  const secretsFile = getSecretsFilePath();
+  if (process.platform !== "win32" && existsSync(secretsFile) && (statSync(secretsFile).mode & 0o077) !== 0) {
+    results.push({
+      name: "API key",
+      status: "warn",
+      message: `${secretsFile} is readable by other users`,
+      fix: `Run \`chmod 600 ${secretsFile}\``,
+    });
+  }
+
+  if (!config.apiKey.startsWith("pplx-")) {
+    results.push({
+      name: "API key",
+      status: "warn",
+      message: `Key from ${source} does not start with "pplx-"`,
+      fix: "Check that you copied the full key from https://www.perplexity.ai/settings/api",
+    });
+    return;
+  }
+
+  results.push({
+    name: "API key",
+    status: "pass",
+    message: `Found in ${source}`,
+  });
+}
+
+function checkOpencodeConfig(results: CheckResult[]): void {
+  const configPath = findOpencodeConfig();
+
+  if (!configPath) {
+    results.push({
+      name: "OpenCode config",
+      status: "fail",
+      message: "No opencode.json or opencode.jsonc found in ~/.config/opencode",
+      fix: "Run `perplexity-opencode install`",
+    });
+    return;
+  }
+
+  const { value, error } = readJsonc(configPath);
+
+  if (error !== undefined || !isRecord(value)) {
+    results.push({
+      name: "OpenCode config",
+      status: "fail",
+      message: `${configPath} could not be parsed${error ? `: ${error}` : ""}`,
+      fix: "Fix the syntax error so OpenCode can load its plugins",
+    });
+    return;
+  }
+
+  const plugins = Array.isArray(value.plugin) ? value.plugin : [];
+
+  if (plugins.some(isPluginEntry)) {
+    results.push({
+      name: "Plugin registration",
+      status: "pass",
+      message: `Registered in ${configPath}`,
+    });
+  } else {
+    results.push({
+      name: "Plugin registration",
+      status: "fail",
+      message: `perplexity-opencode is not in the "plugin" array of ${configPath}`,
+      fix: "Run `perplexity-opencode install` or add \"perplexity-opencode@latest\" to \"plugin\"",
+    });
+  }
+
+  const mcp = isRecord(value.mcp) ? value.mcp : {};
+  const server = mcp.perplexity;
+
+  if (!isRecord(server)) {
+    results.push({
+      name: "MCP server",
+      status: "warn",
+      message: `No mcp.perplexity entry in ${configPath}`,
+      fix: "Optional: the built-in perplexity_search tool works without it. Run `perplexity-opencode install --mcp-command <cmd>` or `--mcp-url <url>` to add it",
+    });
+    return;
+  }
+
+  results.push({
+    name: "MCP server",
+    status: "pass",
+    message: `mcp.perplexity is configured (${String(server.type ?? "local")})`,
+  });
+
+  checkMcpUrl(results, server);
+
+  if (server.type === "remote") {
+    return;
+  }
+
+  const command = Array.isArray(server.command) ? server.command : [];
+  const executable = command[0];
+
+  if (typeof executable !== "string" || executable === "") {
+    results.push({
+      name: "MCP command",
+      status: "fail",
+      message: "mcp.perplexity has no command",
+      fix: 'Set "command" to e.g. ["uv", "tool", "run", "perplexity-mcp"]',
+    });
+    return;
+  }
+
+  const resolved = findExecutable(executable);
+
+  if (resolved) {
+    results.push({
+      name: "MCP command",
+      status: "pass",
+      message: `${executable} found at ${resolved}`,
+    });
+  } else {
+    // Older installs added the uv server to everyone; only a server chosen
+    // with --mcp-command or --mcp-url (recorded as mcpUrl) is a failure
+    const { config, origins } = loadConfig(process.cwd());
+    const explicit = !!config.mcpUrl && origins.mcpUrl?.source !== "default";
+    results.push({
+      name: "MCP command",
+      status: explicit ? "fail" : "warn",
+      message: `${executable} is not on PATH, so the MCP server cannot start${
+        explicit ? "" : " (optional: perplexity_search works without it)"
+      }`,
+      fix:
+        (executable === "uv"
+          ? "Install uv (`curl -LsSf https://astral.sh/uv/install.sh | sh` or `brew install uv`), then `uv tool install perplexity-mcp`"
+          : `Install ${executable} or update mcp.perplexity.command`) +
+        (explicit ? "" : ", or remove mcp.perplexity if you don't use the MCP tools"),
+    });
+  }
+}
+
+// A non-default mcpUrl is what install wrote, so the entry should still match it
+function checkMcpUrl(results: CheckResult[], server: Record<string, unknown>): void {
+  const { config, origins } = loadConfig(process.cwd());
+  if (!config.mcpUrl || origins.mcpUrl?.source === "default") {
+    return;
+  }
+
+  const target = parseMcpUrl(config.mcpUrl);
+  if (!target) {
+    results.push({
+      name: "MCP server",
+      status: "warn",
+      message: `mcpUrl "${config.mcpUrl}" is neither stdio://<command> nor an http(s) URL`,
+      fix: "Fix mcpUrl in perplexity.json",
+    });
+    return;
+  }
+
+  const actual =
+    server.type === "remote"
+      ? String(server.url ?? "")
+      : formatMcpUrl({
+          transport: "local",
+          command: Array.isArray(server.command) ? server.command.map(String) : [],
+        });
+
+  if (actual !== formatMcpUrl(target)) {
+    results.push({
+      name: "MCP server",
+      status: "warn",
+      message: `mcp.perplexity runs ${actual || "nothing"}, but mcpUrl is ${config.mcpUrl}`,
+      fix:
+        target.transport === "remote"
+          ? `Run \`perplexity-opencode install --mcp-url ${target.url}\``
+          : `Run \`perplexity-opencode install --mcp-command "${target.command.join(" ")}"\``,
+    });
+  }
+}
+
+function checkAgentsMd(results: CheckResult[]): void {
+  if (!existsSync(AGENTS_MD_PATH)) {
+    results.push({
+      name: "AGENTS.md",
+      status: "warn",
+      message: `${AGENTS_MD_PATH} does not exist`,
+      fix: "Run `perplexity-opencode install` to add the Perplexity usage instructions",
+    });
+    return;
+  }
+
+  const content = readFileSync(AGENTS_MD_PATH, "utf-8");
+
+  const block = findAgentsMdBlock(content);
+  if (block && block.version < AGENTS_BLOCK_VERSION) {
+    results.push({
+      name: "AGENTS.md",
+      status: "warn",
+      message: `Perplexity instructions are outdated (v${block.version}, current is v${AGENTS_BLOCK_VERSION})`,
+      fix: "Run `perplexity-opencode upgrade` to replace them",
+    });
+  } else if (block) {
+    results.push({
+      name: "AGENTS.md",
+      status: "pass",
+      message: "Perplexity instructions block is present",
+    });
+  } else if (content.includes("# How to use Perplexity")) {
+    results.push({
+      name: "AGENTS.md",
+      status: "warn",
+      message: "Perplexity instructions were found but have been modified",
+      fix: "Remove the modified block and run `perplexity-opencode install` to restore it",
+    });
+  } else {
+    results.push({
+      name: "AGENTS.md",
+      status: "warn",
+      message: "Perplexity instructions block is missing",
+      fix: "Run `perplexity-opencode install` to add it",
+    });
+  }
+}
+
+function checkCustomPatterns(results: CheckResult[], fileConfig: Record<string, unknown>): void {
+  const keywords = isRecord(fileConfig.keywords) ? fileConfig.keywords : {};
+  const patterns = Array.isArray(keywords.customPatterns) ? keywords.customPatterns : [];
+
+  if (patterns.length === 0) {
+    return;
+  }
+
+  const invalid: string[] = [];
+
+  for (const pattern of patterns) {
+    if (typeof pattern !== "string") continue;
+    try {
+      new RegExp(pattern, "i");
+    } catch (err) {
+      invalid.push(`${JSON.stringify(pattern)} (${err instanceof Error ? err.message : String(err)})`);
+    }
+  }
+
+  if (invalid.length > 0) {
+    results.push({
+      name: "Custom patterns",
+      status: "fail",
+      message: `Invalid regular expressions: ${invalid.join(", ")}`,
+      fix: "Fix or remove these entries in keywords.customPatterns (remember to escape backslashes in JSON)",
+    });
+  } else {
+    results.push({
+      name: "Custom patterns",
+      status: "pass",
+      message: `${patterns.length} custom pattern(s) compile`,
+    });
+  }
+}
+
+function checkTemplates(results: CheckResult[]): void {
+  const { config } = loadConfig(process.cwd());
+  const names = Object.keys(config.templates ?? {});
+
+  if (names.length === 0) {
+    return;
+  }
+
+  const { issues } = compileTemplateFiles(config.templates);
+
+  if (issues.length > 0) {
+    results.push({
+      name: "Templates",
+      status: "fail",
+      message: issues.map((issue) => `${issue.file}: ${formatIssue(issue)}`).join("; "),
+      fix: "Fix these templates; until then the built-in hint text is used",
+    });
+  } else {
+    results.push({
+      name: "Templates",
+      status: "pass",
+      message: `${names.length} template(s) compile (${names.join(", ")})`,
+    });
+  }
+}
+
+function printReport(results: CheckResult[]): void {
+  for (const result of results) {
+    console.log(`  ${STATUS_LABELS[result.status]} ${result.name}: ${result.message}`);
+    if (result.fix && result.status !== "pass") {
+      console.log(`         Fix: ${result.fix}`);
+    }
+  }
+
+  const count = (status: CheckStatus) =>
+    results.filter((r) => r.status === status).length;
+
+  console.log("\n" + "-".repeat(50));
+  console.log(
+    `\n ${count("pass")} passed, ${count("warn")} warning(s), ${count("fail")} failed\n`
+  );
+}
+
+export async function doctor(): Promise<number> {
+  console.log("\n Perplexity OpenCode Doctor\n");
+
+  const results: CheckResult[] = [];
+
+  const fileConfig = checkPerplexityConfig(results);
+  checkConfigVersion(results, fileConfig);
+  checkApiKey(results);
+  checkOpencodeConfig(results);
+  checkAgentsMd(results);
+  checkCustomPatterns(results, fileConfig);
+  checkTemplates(results);
+
+  printReport(results);
+
+  return results.some((r) => r.status === "fail") ? 1 : 0;
+}
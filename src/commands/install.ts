@@ -0,0 +1,802 @@
+import { existsSync } from "node:fs";
+import { execFileSync } from "node:child_process";
+import { join, relative, resolve } from "node:path";
+
+import {
+  OPENCODE_CONFIG_DIR,
+  PERPLEXITY_CONFIG_PATH,
+  AGENTS_MD_PATH,
+  AGENTS_BLOCK_VERSION,
+  PLUGIN_NAME,
+  PERPLEXITY_AGENTS_INSTRUCTIONS,
+  createReadline,
+  confirm,
+  prompt,
+  findOpencodeConfig,
+  isPluginEntry,
+  findAgentsMdBlock,
+  formatAgentsMdBlock,
+  findPerplexityConfigFiles,
+} from "./shared.js";
+import { CONFIG_VERSION } from "./migrations.js";
+import {
+  MCP_KEY_REFERENCE,
+  PROJECT_KEY_REFERENCE,
+  findPlaintextKeys,
+  findPlaintextMcpKey,
+  migratePlaintextKeys,
+  stageSecretsFile,
+} from "./secrets.js";
+import {
+  createFileChanges,
+  existsStaged,
+  printDryRun,
+  readStaged,
+  stageFile,
+  writeChanges,
+} from "./changes.js";
+import type { FileChanges } from "./changes.js";
+import { parse, setValue, appendArrayItem, removeValue } from "../jsonc.js";
+import { SCHEMA_URL, formatIssue } from "../schema.js";
+import { loadConfig } from "../config.js";
+import { SECRETS_FILE_REFERENCE, getSecretsFilePath } from "../secrets.js";
+import { compileTemplateFiles, getTemplateVariables, renderTemplate } from "../templates.js";
+import {
+  DEFAULT_MCP_COMMAND,
+  MCP_SERVER_NAME,
+  buildMcpServerEntry,
+  formatMcpUrl,
+  parseMcpUrl,
+  splitCommand,
+} from "../mcp.js";
+import type { McpTarget, McpTransport } from "../mcp.js";
+import { discoverMcpTools } from "../services/mcp.js";
+
+function addPluginToConfig(changes: FileChanges, configPath: string): boolean {
+  try {
+    const content = readStaged(changes, configPath);
+    let config: Record<string, unknown>;
+
+    try {
+      config = parse(content) as Record<string, unknown>;
+    } catch (err) {
+      console.error(`  Failed to parse config file: ${err instanceof Error ? err.message : err}`);
+      return false;
+    }
+
+    const plugins = Array.isArray(config.plugin) ? config.plugin : [];
+
+    if (plugins.some(isPluginEntry)) {
+      console.log("  Plugin already registered in config");
+      return true;
+    }
+
+    stageFile(changes, configPath, appendArrayItem(content, ["plugin"], PLUGIN_NAME));
+    console.log(`  Added plugin to ${configPath}`);
+    return true;
+  } catch (err) {
+    console.error("  Failed to update config:", err);
+    return false;
+  }
+}
+
+/** How the configs refer to the API key, so neither holds the key itself. */
+interface KeyReference {
+  config: { apiKey: string } | { apiKeyFile: string };
+  mcp: string;
+}
+
+// A key that came from the environment stays there; one that was typed in or
+// passed with --api-key goes to the secrets file.
+function storeApiKey(changes: FileChanges, apiKey: string, fromEnv: boolean): KeyReference {
+  if (fromEnv) {
+    return { config: { apiKey: "{env:PERPLEXITY_API_KEY}" }, mcp: "{env:PERPLEXITY_API_KEY}" };
+  }
+
+  stageSecretsFile(changes, apiKey);
+  console.log(`  Saved the API key to ${getSecretsFilePath()} (readable only by you)`);
+  return { config: { apiKeyFile: SECRETS_FILE_REFERENCE }, mcp: MCP_KEY_REFERENCE };
+}
+
+function addMcpServerToConfig(
+  changes: FileChanges,
+  configPath: string,
+  server: Record<string, unknown>,
+  replace: boolean
+): boolean {
+  try {
+    const content = readStaged(changes, configPath);
+    let config: Record<string, unknown>;
+
+    try {
+      config = parse(content) as Record<string, unknown>;
+    } catch (err) {
+      console.error(`  Failed to parse config file: ${err instanceof Error ? err.message : err}`);
+      return false;
+    }
+
+    const mcp = (config.mcp as Record<string, unknown>) || {};
+
+    if (mcp[MCP_SERVER_NAME] && !replace) {
+      console.log(`  MCP server '${MCP_SERVER_NAME}' already configured`);
+      return true;
+    }
+
+    stageFile(changes, configPath, setValue(content, ["mcp", MCP_SERVER_NAME], server));
+    console.log(
+      mcp[MCP_SERVER_NAME]
+        ? `  Replaced MCP server '${MCP_SERVER_NAME}' in config (${server.type})`
+        : `  Added MCP server '${MCP_SERVER_NAME}' to config (${server.type})`
+    );
+    return true;
+  } catch (err) {
+    console.error("  Failed to add MCP server:", err);
+    return false;
+  }
+}
+
+function createNewConfig(
+  changes: FileChanges,
+  server: Record<string, unknown> | null,
+  dir = OPENCODE_CONFIG_DIR
+): void {
+  const configPath = join(dir, "opencode.json");
+  const config = {
+    plugin: [PLUGIN_NAME],
+    ...(server ? { mcp: { [MCP_SERVER_NAME]: server } } : {}),
+  };
+
+  stageFile(changes, configPath, JSON.stringify(config, null, 2));
+  console.log(`  Created ${configPath}`);
+}
+
+/**
+ * The MCP server to configure, chosen by --mcp-url, --mcp-command or
+ * --transport; null without them, since perplexity_search works without a
+ * server. A chosen server replaces an existing entry.
+ */
+function resolveMcpTarget(
+  options: InstallOptions,
+  directory?: string
+): { target: McpTarget | null } | { error: string } {
+  if (options.mcpUrl && options.mcpCommand) {
+    return { error: "Pass either --mcp-url or --mcp-command, not both" };
+  }
+
+  if (options.mcpCommand) {
+    if (options.transport === "remote") {
+      return { error: "--mcp-command starts a local server; use --mcp-url with --transport remote" };
+    }
+    const command = splitCommand(options.mcpCommand);
+    return command.length > 0
+      ? { target: { transport: "local", command } }
+      : { error: "--mcp-command is empty" };
+  }
+
+  if (options.mcpUrl) {
+    const target = parseMcpUrl(options.mcpUrl);
+    if (!target) {
+      return { error: `--mcp-url must be an http(s) URL or stdio://<command>, got "${options.mcpUrl}"` };
+    }
+    if (options.transport && options.transport !== target.transport) {
+      return { error: `--mcp-url ${options.mcpUrl} is a ${target.transport} server, not ${options.transport}` };
+    }
+    return { target };
+  }
+
+  if (!options.transport) {
+    return { target: null };
+  }
+  const configured = parseMcpUrl(loadConfig(directory).config.mcpUrl ?? "");
+  if (configured?.transport === options.transport) {
+    return { target: configured };
+  }
+  return options.transport === "local"
+    ? { target: { transport: "local", command: DEFAULT_MCP_COMMAND } }
+    : { error: "--transport remote needs the server's URL in --mcp-url" };
+}
+
+const NO_MCP_SERVER =
+  "  No MCP server added (optional: perplexity_search works without one; pass --mcp-command or --mcp-url to add one)";
+
+// Stored in perplexity.json so hints can name the server's tools
+async function recordMcpTools(
+  changes: FileChanges,
+  target: McpTarget,
+  apiKey: string,
+  configPath = PERPLEXITY_CONFIG_PATH
+): Promise<void> {
+  if (!existsStaged(changes, configPath)) {
+    return;
+  }
+
+  try {
+    const tools = await discoverMcpTools(target, apiKey);
+    const content = readStaged(changes, configPath);
+    stageFile(changes, configPath, setValue(content, ["mcpTools"], tools));
+    console.log(
+      tools.length > 0
+        ? `  MCP server provides: ${tools.join(", ")}`
+        : "  MCP server provides no tools"
+    );
+  } catch (err) {
+    console.log(`  Could not list the MCP server's tools: ${err instanceof Error ? err.message : String(err)}`);
+    console.log("  Hints will only mention perplexity_search; run install again with the same flags once the server is reachable");
+  }
+}
+
+// Re-running install keeps the user's other settings and comments, changing
+// only what install itself decides
+function createPerplexityConfig(
+  changes: FileChanges,
+  keyReference: KeyReference["config"],
+  mcpUrl?: string
+): string | null {
+  const [existing] = findPerplexityConfigFiles();
+  if (!existing) {
+    const config = {
+      $schema: SCHEMA_URL,
+      configVersion: CONFIG_VERSION,
+      ...keyReference,
+      ...(mcpUrl ? { mcpUrl } : {}),
+      keywords: {
+        enabled: true,
+      },
+    };
+
+    stageFile(changes, PERPLEXITY_CONFIG_PATH, JSON.stringify(config, null, 2));
+    console.log(`  Created ${PERPLEXITY_CONFIG_PATH}`);
+    return PERPLEXITY_CONFIG_PATH;
+  }
+
+  try {
+    let content = readStaged(changes, existing);
+    content = removeValue(content, ["apiKeyFile" in keyReference ? "apiKey" : "apiKeyFile"]);
+    for (const [key, value] of Object.entries(keyReference)) {
+      content = setValue(content, [key], value);
+    }
+    content = mcpUrl ? setValue(content, ["mcpUrl"], mcpUrl) : removeValue(content, ["mcpUrl"]);
+    content = setValue(content, ["configVersion"], CONFIG_VERSION);
+    stageFile(changes, existing, content);
+  } catch (err) {
+    console.error(`  Failed to update ${existing}: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+  console.log(`  Updated ${existing}`);
+  return existing;
+}
+
+/**
+ * The instructions block for AGENTS.md: the `templates.agents` template when
+ * one is configured and valid, otherwise the built-in text.
+ */
+export function getAgentsInstructions(directory?: string): string {
+  const { config } = loadConfig(directory);
+  if (!config.templates?.agents) {
+    return PERPLEXITY_AGENTS_INSTRUCTIONS;
+  }
+
+  const { templates, issues } = compileTemplateFiles({ agents: config.templates.agents });
+  if (!templates.agents) {
+    for (const issue of issues) {
+      console.warn(`  Invalid template ${issue.file}: ${formatIssue(issue)}`);
+    }
+    console.warn("  Using the built-in instructions instead");
+    return PERPLEXITY_AGENTS_INSTRUCTIONS;
+  }
+
+  return renderTemplate(templates.agents, getTemplateVariables());
+}
+
+// Keys written by older versions of the installer, e.g. in an existing MCP server block
+function migrateLeftoverKeys(changes: FileChanges): void {
+  if (findPlaintextKeys(changes).length === 0) {
+    return;
+  }
+
+  try {
+    const { migrated, error } = migratePlaintextKeys(changes);
+    if (error) {
+      console.log(`  Warning: plaintext API keys left in place: ${error}`);
+    }
+    for (const path of migrated) {
+      console.log(`  Replaced the plaintext API key in ${path} with a reference`);
+    }
+  } catch (err) {
+    console.error("  Failed to migrate plaintext API keys:", err);
+  }
+}
+
+/**
+ * Replaces the instructions block in an AGENTS.md with the current one.
+ * Blocks written by a newer version of the plugin are left alone.
+ */
+export function refreshAgentsMdBlock(changes: FileChanges, agentsMdPath: string, directory?: string): boolean {
+  try {
+    const content = readStaged(changes, agentsMdPath);
+    const block = findAgentsMdBlock(content);
+    if (!block) {
+      console.log(`  No Perplexity instructions block in ${agentsMdPath}`);
+      return true;
+    }
+    if (block.version > AGENTS_BLOCK_VERSION) {
+      console.log(
+        `  ${agentsMdPath} has v${block.version} instructions from a newer version of the plugin; left as they are`
+      );
+      return true;
+    }
+
+    const replacement = formatAgentsMdBlock(getAgentsInstructions(directory));
+    if (content.slice(block.start, block.end).trim() === replacement) {
+      console.log("  Perplexity instructions in AGENTS.md are up to date");
+      return true;
+    }
+
+    const before = content.slice(0, block.start).trimEnd();
+    const after = content.slice(block.end).trim();
+    stageFile(changes, agentsMdPath, [before, replacement, after].filter(Boolean).join("\n\n") + "\n");
+    console.log(
+      block.version < AGENTS_BLOCK_VERSION
+        ? `  Upgraded the Perplexity instructions in ${agentsMdPath} (v${block.version} -> v${AGENTS_BLOCK_VERSION})`
+        : `  Updated the Perplexity instructions in ${agentsMdPath}`
+    );
+    return true;
+  } catch (err) {
+    console.error("  Failed to update AGENTS.md:", err);
+    return false;
+  }
+}
+
+/** Adds the instructions block to the global AGENTS.md, or a project's when `directory` is given. */
+function updateAgentsMd(changes: FileChanges, directory?: string): boolean {
+  const agentsMdPath = directory ? join(directory, "AGENTS.md") : AGENTS_MD_PATH;
+
+  try {
+    if (existsStaged(changes, agentsMdPath)) {
+      const content = readStaged(changes, agentsMdPath);
+
+      if (findAgentsMdBlock(content)) {
+        return refreshAgentsMdBlock(changes, agentsMdPath, directory);
+      }
+      if (content.includes("# How to use Perplexity")) {
+        console.log("  Perplexity instructions already in AGENTS.md (edited by hand, so left as they are)");
+        return true;
+      }
+
+      const block = formatAgentsMdBlock(getAgentsInstructions(directory));
+      stageFile(changes, agentsMdPath, content.trimEnd() + "\n\n" + block + "\n");
+      console.log("  Appended Perplexity instructions to AGENTS.md");
+    } else {
+      stageFile(changes, agentsMdPath, formatAgentsMdBlock(getAgentsInstructions(directory)) + "\n");
+      console.log(`  Created ${agentsMdPath} with Perplexity instructions`);
+    }
+    return true;
+  } catch (err) {
+    console.error("  Failed to update AGENTS.md:", err);
+    return false;
+  }
+}
+
+/** The project's perplexity.json: no key reference, since the project layer may not hold one. */
+function createProjectPerplexityConfig(changes: FileChanges, directory: string): string | null {
+  const configPath = join(directory, ".opencode", "perplexity.json");
+
+  try {
+    if (existsStaged(changes, configPath)) {
+      console.log(`  ${configPath} already exists`);
+      return configPath;
+    }
+
+    // mcpUrl is only honored in the global config; the project's
+    // opencode.json describes its server
+    const config = {
+      $schema: SCHEMA_URL,
+      keywords: {
+        enabled: true,
+      },
+    };
+    stageFile(changes, configPath, JSON.stringify(config, null, 2));
+    console.log(`  Created ${configPath}`);
+    return configPath;
+  } catch (err) {
+    console.error("  Failed to create the project config:", err);
+    return null;
+  }
+}
+
+// A literal key in a project file is likely to be committed, so it is replaced
+// even when the server entry is otherwise left alone. Called when the file
+// held one before install touched it.
+function replacePlaintextMcpKey(changes: FileChanges, configPath: string, directory: string): void {
+  const left = findPlaintextMcpKey(configPath, changes);
+  if (left) {
+    const content = readStaged(changes, configPath);
+    stageFile(changes, configPath, setValue(content, left.jsonPath, `${left.prefix}${PROJECT_KEY_REFERENCE}`));
+  }
+  console.log(`  Replaced the plaintext API key in ${configPath} with ${PROJECT_KEY_REFERENCE}`);
+  if (gitStatus(directory, configPath) === "tracked") {
+    console.log("  Warning: the file is tracked, so the key is in the repository's history; rotate it at");
+    console.log("  https://www.perplexity.ai/settings/api");
+  }
+}
+
+type GitStatus = "ignored" | "tracked" | "untracked" | "no-repo";
+
+function gitStatus(directory: string, path: string): GitStatus {
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: directory, stdio: "ignore", timeout: 10_000 });
+
+  try {
+    git("rev-parse", "--is-inside-work-tree");
+  } catch {
+    return "no-repo";
+  }
+
+  try {
+    git("ls-files", "--error-unmatch", "--", path);
+    return "tracked";
+  } catch {
+    // Not in the index; check-ignore tells ignored files from new ones
+  }
+
+  try {
+    git("check-ignore", "-q", "--", path);
+    return "ignored";
+  } catch {
+    return "untracked";
+  }
+}
+
+/** Warns about project files that teammates won't receive because git ignores them. */
+function checkGitIgnored(changes: FileChanges, directory: string, paths: string[]): void {
+  const existing = paths.filter((path) => existsStaged(changes, path));
+  if (existing.length === 0) {
+    return;
+  }
+
+  if (gitStatus(directory, existing[0]) === "no-repo") {
+    console.log(`  ${directory} is not a git repository; commit these files once it is:`);
+    for (const path of existing) {
+      console.log(`    ${relative(directory, path)}`);
+    }
+    return;
+  }
+
+  let ignored = 0;
+  for (const path of existing) {
+    const status = gitStatus(directory, path);
+    const name = relative(directory, path);
+    if (status === "ignored") {
+      ignored++;
+      console.log(`  Warning: ${name} is git-ignored, so people who clone the repository won't get it`);
+    } else {
+      console.log(`  ${name} ${status === "tracked" ? "is tracked" : "is ready to commit"}`);
+    }
+  }
+
+  if (ignored > 0) {
+    console.log("  Remove it from .gitignore (or add it with git add -f) to share the setup.");
+  }
+}
+
+/** Closes the prompt and reports a step that failed; returns the exit code. */
+function abort(rl: ReturnType<typeof createReadline> | null): number {
+  console.error("\n  A step failed, so no files were changed. Review the messages above.\n");
+  if (rl) rl.close();
+  return 1;
+}
+
+export interface InstallOptions {
+  tui: boolean;
+  apiKey?: string;
+  transport?: McpTransport;
+  /** A remote server's URL, or `stdio://<command>` */
+  mcpUrl?: string;
+  /** Command line that starts a local server, e.g. `npx -y perplexity-mcp` */
+  mcpCommand?: string;
+  /** Install into this project's config instead of ~/.config/opencode */
+  project?: string;
+  /** Print a diff of the changes instead of writing them */
+  dryRun?: boolean;
+}
+
+/**
+ * Registers the plugin and MCP server in a project's opencode.json and adds
+ * the instructions to its AGENTS.md. These files are meant to be committed,
+ * so the MCP server reads the key from each user's PERPLEXITY_API_KEY.
+ */
+async function installProject(options: InstallOptions, directory: string): Promise<number> {
+  console.log(`\n Perplexity OpenCode Plugin Installer (project: ${directory})\n`);
+
+  if (options.apiKey) {
+    console.error("  --api-key cannot be used with --project: project files are shared, so they never hold the key.");
+    console.error("  Install globally to store your key, or set PERPLEXITY_API_KEY.\n");
+    return 1;
+  }
+  if (!existsSync(directory)) {
+    console.error(`  ${directory} does not exist\n`);
+    return 1;
+  }
+
+  const mcpTarget = resolveMcpTarget(options, directory);
+  if ("error" in mcpTarget) {
+    console.error(`  ${mcpTarget.error}\n`);
+    return 1;
+  }
+  const { target } = mcpTarget;
+
+  const rl = options.tui ? createReadline() : null;
+  const changes = createFileChanges();
+  let failed = false;
+  if (options.dryRun) {
+    console.log("Dry run: nothing is written; the changes are shown at the end.\n");
+  }
+
+  // Step 1: The key stays with each user
+  console.log("Step 1: API Key");
+  const { config } = loadConfig(directory);
+  const apiKey = config.apiKey ?? "";
+  console.log(`  Project files refer to the key as ${PROJECT_KEY_REFERENCE}; they never contain it.`);
+  if (apiKey) {
+    console.log("  Your API key is configured");
+  } else {
+    console.log("  No API key found for you. Set PERPLEXITY_API_KEY, or run install without --project.");
+  }
+  if (target && !process.env.PERPLEXITY_API_KEY) {
+    console.log("  Note: the project's MCP server needs PERPLEXITY_API_KEY set when OpenCode starts.");
+  }
+
+  // Step 2: Project Perplexity config
+  console.log("\nStep 2: Create Project Perplexity Config");
+  const perplexityConfigPath = createProjectPerplexityConfig(changes, directory);
+  failed = !perplexityConfigPath || failed;
+
+  // Step 3: Register plugin and MCP server in the project's OpenCode config
+  console.log("\nStep 3: Configure OpenCode for the Project");
+  let configPath = findOpencodeConfig(directory);
+  const server = target ? buildMcpServerEntry(target, PROJECT_KEY_REFERENCE) : null;
+  let serverConfigured = false;
+  if (!server) {
+    console.log(NO_MCP_SERVER);
+  }
+
+  const shouldModify =
+    !(options.tui && rl) ||
+    (await confirm(rl, configPath ? `Modify ${configPath}?` : `Create ${join(directory, "opencode.json")}?`));
+  if (!shouldModify) {
+    console.log("  Skipped.");
+  } else if (configPath) {
+    const hadPlaintextKey = findPlaintextMcpKey(configPath) !== null;
+    failed = !addPluginToConfig(changes, configPath) || failed;
+    if (server) {
+      serverConfigured = addMcpServerToConfig(changes, configPath, server, true);
+      failed = !serverConfigured || failed;
+    }
+    if (hadPlaintextKey && !failed) {
+      replacePlaintextMcpKey(changes, configPath, directory);
+    }
+  } else {
+    createNewConfig(changes, server, directory);
+    serverConfigured = server !== null;
+    configPath = join(directory, "opencode.json");
+  }
+
+  if (target && serverConfigured && apiKey && perplexityConfigPath && !options.dryRun) {
+    await recordMcpTools(changes, target, apiKey, perplexityConfigPath);
+  }
+
+  // Step 4: Add Perplexity instructions to the project's AGENTS.md
+  const agentsMdPath = join(directory, "AGENTS.md");
+  console.log("\nStep 4: Add Perplexity Instructions to AGENTS.md");
+  if (!(options.tui && rl) || (await confirm(rl, `Add Perplexity usage instructions to ${agentsMdPath}?`))) {
+    failed = !updateAgentsMd(changes, directory) || failed;
+  } else {
+    console.log("  Skipped.");
+  }
+
+  if (failed) {
+    return abort(rl);
+  }
+  if (!options.dryRun && !writeChanges(changes, "install")) {
+    if (rl) rl.close();
+    return 1;
+  }
+
+  // Step 5: Make sure the files reach everyone who clones the repository
+  console.log("\nStep 5: Check Git");
+  checkGitIgnored(
+    changes,
+    directory,
+    [configPath, perplexityConfigPath, agentsMdPath].filter((path): path is string => !!path)
+  );
+
+  if (options.dryRun) {
+    printDryRun(changes, "install");
+    if (rl) rl.close();
+    return 0;
+  }
+
+  console.log("\n" + "-".repeat(50));
+  console.log("\n Project Setup Complete!\n");
+  console.log("Commit the files above so everyone who clones the repository gets the plugin.");
+  console.log("Each person needs their own key in PERPLEXITY_API_KEY:");
+  console.log("  https://www.perplexity.ai/settings/api");
+  console.log("\nRestart OpenCode in the project to activate the plugin.\n");
+
+  if (rl) rl.close();
+  return 0;
+}
+
+export async function install(options: InstallOptions): Promise<number> {
+  if (options.project !== undefined) {
+    return installProject(options, resolve(options.project));
+  }
+
+  console.log("\n Perplexity OpenCode Plugin Installer\n");
+
+  const mcpTarget = resolveMcpTarget(options);
+  if ("error" in mcpTarget) {
+    console.error(`  ${mcpTarget.error}\n`);
+    return 1;
+  }
+  const { target } = mcpTarget;
+
+  const rl = options.tui ? createReadline() : null;
+  const changes = createFileChanges();
+  let failed = false;
+  if (options.dryRun) {
+    console.log("Dry run: nothing is written; the changes are shown at the end.\n");
+  }
+
+  // Step 1: Get API key
+  console.log("Step 1: Configure API Key");
+  let apiKey = options.apiKey || process.env.PERPLEXITY_API_KEY || "";
+  const fromEnv = !options.apiKey && !!process.env.PERPLEXITY_API_KEY;
+
+  if (!apiKey && options.tui && rl) {
+    console.log("Get your API key from: https://www.perplexity.ai/settings/api");
+    apiKey = await prompt(rl, "Enter your Perplexity API key (pplx-...): ");
+  }
+
+  if (!apiKey) {
+    console.log("  No API key provided. You can set PERPLEXITY_API_KEY environment variable later.");
+    console.log("  Get your API key at: https://www.perplexity.ai/settings/api\n");
+  } else if (!apiKey.startsWith("pplx-")) {
+    console.log("  Warning: API key should start with 'pplx-'");
+  } else {
+    console.log("  API key configured");
+  }
+
+  // Step 2: Store the key and create the Perplexity config file
+  console.log("\nStep 2: Create Perplexity Config");
+  const keyReference = apiKey ? storeApiKey(changes, apiKey, fromEnv) : null;
+  let perplexityConfigPath: string | null = null;
+  if (keyReference) {
+    perplexityConfigPath = createPerplexityConfig(changes, keyReference.config, target ? formatMcpUrl(target) : undefined);
+    failed = !perplexityConfigPath || failed;
+  } else {
+    console.log("  Skipped (no API key)");
+  }
+
+  // Step 3: Register plugin and MCP server in OpenCode config
+  console.log("\nStep 3: Configure OpenCode");
+  const configPath = findOpencodeConfig();
+  const server = target && keyReference ? buildMcpServerEntry(target, keyReference.mcp) : null;
+  let serverConfigured = false;
+  if (!target) {
+    console.log(NO_MCP_SERVER);
+  }
+
+  if (configPath) {
+    if (options.tui && rl) {
+      const shouldModify = await confirm(rl, `Modify ${configPath}?`);
+      if (shouldModify) {
+        failed = !addPluginToConfig(changes, configPath) || failed;
+        if (server) {
+          serverConfigured = addMcpServerToConfig(changes, configPath, server, true);
+          failed = !serverConfigured || failed;
+        }
+        migrateLeftoverKeys(changes);
+      } else {
+        console.log("  Skipped.");
+      }
+    } else {
+      failed = !addPluginToConfig(changes, configPath) || failed;
+      if (server) {
+        serverConfigured = addMcpServerToConfig(changes, configPath, server, true);
+        failed = !serverConfigured || failed;
+      }
+      migrateLeftoverKeys(changes);
+    }
+  } else {
+    if (options.tui && rl) {
+      const shouldCreate = await confirm(rl, "No OpenCode config found. Create one?");
+      if (shouldCreate) {
+        createNewConfig(changes, server);
+        serverConfigured = server !== null;
+      } else {
+        console.log("  Skipped.");
+      }
+    } else {
+      createNewConfig(changes, server);
+      serverConfigured = server !== null;
+    }
+  }
+
+  // Discovery starts the server, so a dry run skips it
+  if (target && serverConfigured && apiKey && perplexityConfigPath && !options.dryRun) {
+    await recordMcpTools(changes, target, apiKey, perplexityConfigPath);
+  }
+
+  // Step 4: Add Perplexity instructions to AGENTS.md
+  console.log("\nStep 4: Add Perplexity Instructions to AGENTS.md");
+  if (options.tui && rl) {
+    const shouldUpdate = await confirm(rl, "Add Perplexity usage instructions to ~/.config/opencode/AGENTS.md?");
+    if (shouldUpdate) {
+      failed = !updateAgentsMd(changes) || failed;
+    } else {
+      console.log("  Skipped.");
+    }
+  } else {
+    failed = !updateAgentsMd(changes) || failed;
+  }
+
+  if (failed) {
+    return abort(rl);
+  }
+  if (options.dryRun) {
+    printDryRun(changes, "install");
+    if (rl) rl.close();
+    return 0;
+  }
+  if (!writeChanges(changes, "install")) {
+    if (rl) rl.close();
+    return 1;
+  }
+
+  // Step 5: Optional perplexity-mcp
+  console.log("\nStep 5: Perplexity MCP Server (optional)");
+  console.log("  The plugin registers a native perplexity_search tool that calls the");
+  console.log("  Perplexity API directly, so no MCP server is required.");
+  console.log("");
+  if (!target) {
+    console.log("  To also use the perplexity-mcp server's tools, run install again with");
+    console.log('  --mcp-command (e.g. "uv tool run perplexity-mcp") or --mcp-url.');
+  } else if (target.transport === "remote") {
+    console.log(`  The MCP server is remote (${target.url}), so there is nothing to install locally.`);
+  } else if (target.command[0] === "uv") {
+    console.log("  If you also want the perplexity-mcp server's tools, install it with uv:");
+    console.log("     uv tool install perplexity-mcp");
+    console.log("");
+    console.log("  For more installation methods, see:");
+    console.log("  https://github.com/kevinmichaelchen/perplexity-mcp#installation");
+  } else {
+    console.log(`  OpenCode starts the MCP server with: ${target.command.join(" ")}`);
+  }
+
+  // Summary
+  console.log("\n" + "-".repeat(50));
+  console.log("\n Setup Complete!\n");
+
+  if (!apiKey) {
+    console.log("Next steps:");
+    console.log("1. Get your API key from: https://www.perplexity.ai/settings/api");
+    console.log("2. Set the environment variable:");
+    console.log('   export PERPLEXITY_API_KEY="pplx-..."');
+    console.log("   Or edit ~/.config/opencode/perplexity.json");
+  } else {
+    console.log("Perplexity plugin is configured!");
+    console.log("The perplexity_search tool will be available once OpenCode restarts.");
+  }
+
+  console.log("\nKeyword triggers enabled:");
+  console.log('  - "search the web...", "look up...", "find information..."');
+  console.log('  - "what is the latest...", "recent news..."');
+  console.log('  - "research...", "investigate..."');
+  console.log('  - "compare...", "alternatives to..."');
+
+  console.log("\nRestart OpenCode to activate the plugin.\n");
+
+  if (rl) rl.close();
+  return 0;
+}
@@ -0,0 +1,133 @@
+import { readStaged, stageFile } from "./changes.js";
+import type { FileChanges } from "./changes.js";
+import { PROJECT_KEY_REFERENCE, findPlaintextMcpKey, migratePlaintextKeys } from "./secrets.js";
+import { findOpencodeConfig, findPerplexityConfigFiles } from "./shared.js";
+import { isProjectSetting } from "../config.js";
+import { parse, removeValue, setValue } from "../jsonc.js";
+import { DEFAULT_MCP_COMMAND, MCP_SERVER_NAME, formatMcpUrl } from "../mcp.js";
+import type { McpTarget } from "../mcp.js";
+
+/**
+ * A step in the history of the config format, covering perplexity.json and
+ * the `mcp.perplexity` entry in opencode.json. Migrations only stage their
+ * edits and must be safe to run again: without a perplexity.json to record
+ * `configVersion` in, every migration runs on each upgrade.
+ */
+interface Migration {
+  /** `configVersion` once this migration has run */
+  version: number;
+  description: string;
+  /** Returns a line per change made; throws when the files can't be migrated */
+  migrate(changes: FileChanges): string[];
+}
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  notes: string[];
+}
+
+function readObject(changes: FileChanges, path: string): Record<string, unknown> {
+  const value = parse(readStaged(changes, path));
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+// Installers before the key file existed wrote the key into both files
+function moveApiKeys(changes: FileChanges): string[] {
+  const { migrated, error } = migratePlaintextKeys(changes);
+  if (error) {
+    throw new Error(error);
+  }
+  return migrated.map((path) => `Replaced the plaintext API key in ${path} with a reference`);
+}
+
+// Before mcpUrl described the server, a hand-edited mcp.perplexity entry was
+// invisible to install and doctor
+function recordMcpUrl(changes: FileChanges): string[] {
+  const [perplexityPath] = findPerplexityConfigFiles();
+  const opencodePath = findOpencodeConfig();
+  if (!perplexityPath || !opencodePath || readObject(changes, perplexityPath).mcpUrl !== undefined) {
+    return [];
+  }
+
+  const mcp = readObject(changes, opencodePath).mcp as Record<string, Record<string, unknown>> | undefined;
+  const server = mcp?.[MCP_SERVER_NAME];
+  let target: McpTarget | null = null;
+  if (server?.type === "remote" && typeof server.url === "string") {
+    target = { transport: "remote", url: server.url };
+  } else if (Array.isArray(server?.command) && server.command.length > 0) {
+    target = { transport: "local", command: server.command.map(String) };
+  }
+
+  const mcpUrl = target ? formatMcpUrl(target) : null;
+  if (!mcpUrl || mcpUrl === formatMcpUrl({ transport: "local", command: DEFAULT_MCP_COMMAND })) {
+    return [];
+  }
+
+  stageFile(changes, perplexityPath, setValue(readStaged(changes, perplexityPath), ["mcpUrl"], mcpUrl));
+  return [`Set mcpUrl to ${mcpUrl} in ${perplexityPath}`];
+}
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, description: "Move plaintext API keys into the private key file", migrate: moveApiKeys },
+  { version: 2, description: "Record the MCP server from opencode.json as mcpUrl", migrate: recordMcpUrl },
+];
+
+/** The config format this version of the plugin writes. */
+export const CONFIG_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** `configVersion` from perplexity.json; 0 for files written before it existed, or no file at all. */
+export function readConfigVersion(changes: FileChanges): number {
+  const [path] = findPerplexityConfigFiles();
+  const version = path ? readObject(changes, path).configVersion : undefined;
+  return typeof version === "number" ? version : 0;
+}
+
+/**
+ * Stages every migration newer than the config's `configVersion`, then
+ * records the new version. Throws when a migration can't run.
+ */
+export function migrateConfig(changes: FileChanges): MigrationStep[] {
+  const from = readConfigVersion(changes);
+  const steps = MIGRATIONS.filter((m) => m.version > from).map((m) => ({
+    version: m.version,
+    description: m.description,
+    notes: m.migrate(changes),
+  }));
+
+  const [path] = findPerplexityConfigFiles();
+  if (path && steps.length > 0) {
+    stageFile(changes, path, setValue(readStaged(changes, path), ["configVersion"], CONFIG_VERSION));
+  }
+  return steps;
+}
+
+/**
+ * Brings the files `install --project` wrote up to date: drops settings the
+ * project config ignores from `.opencode/perplexity.json`, such as the
+ * `mcpUrl` older versions wrote there, and replaces a literal key in the
+ * project's MCP server with a reference. Returns a line per change made.
+ */
+export function migrateProjectConfig(changes: FileChanges, directory: string): string[] {
+  const notes: string[] = [];
+
+  for (const path of findPerplexityConfigFiles(directory)) {
+    const ignored = Object.keys(readObject(changes, path)).filter((key) => key !== "$schema" && !isProjectSetting(key));
+    if (ignored.length === 0) continue;
+    const content = ignored.reduce((text, key) => removeValue(text, [key]), readStaged(changes, path));
+    stageFile(changes, path, content);
+    notes.push(`Removed ${ignored.join(", ")} from ${path} (only read from the global config)`);
+  }
+
+  const opencodePath = findOpencodeConfig(directory);
+  const key = opencodePath ? findPlaintextMcpKey(opencodePath, changes) : null;
+  if (opencodePath && key) {
+    const content = setValue(readStaged(changes, opencodePath), key.jsonPath, `${key.prefix}${PROJECT_KEY_REFERENCE}`);
+    stageFile(changes, opencodePath, content);
+    notes.push(`Replaced the plaintext API key in ${opencodePath} with ${PROJECT_KEY_REFERENCE}`);
+  }
+
+  return notes;
+}
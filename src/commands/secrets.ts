@@ -0,0 +1,173 @@
+import { applyChanges, createFileChanges, existsStaged, readStaged, stageFile } from "./changes.js";
+import type { FileChanges } from "./changes.js";
+import { findOpencodeConfig, findPerplexityConfigFiles } from "./shared.js";
+import { parse, removeValue, setValue } from "../jsonc.js";
+import type { JsonPath } from "../jsonc.js";
+import { MCP_SERVER_NAME } from "../mcp.js";
+import { SECRETS_FILE_REFERENCE, getSecretsFilePath, isSecretReference } from "../secrets.js";
+
+/** OpenCode substitutes `{file:...}` itself when it loads opencode.json. */
+export const MCP_KEY_REFERENCE = `{file:${SECRETS_FILE_REFERENCE}}`;
+
+/** Project files are shared, so their MCP server reads each user's own key from the environment. */
+export const PROJECT_KEY_REFERENCE = "{env:PERPLEXITY_API_KEY}";
+
+export interface PlaintextKey {
+  path: string;
+  jsonPath: JsonPath;
+  key: string;
+  /** Text before the key in the value, e.g. "Bearer " in an Authorization header */
+  prefix: string;
+}
+
+export interface MigrationResult {
+  /** Files whose keys were replaced by references */
+  migrated: string[];
+  error?: string;
+}
+
+function readConfig(path: string, changes: FileChanges): Record<string, unknown> | null {
+  try {
+    const value = parse(readStaged(changes, path));
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    // Unparseable files are reported by doctor, not migrated
+    return null;
+  }
+}
+
+function isPlaintext(value: unknown): value is string {
+  return typeof value === "string" && value !== "" && !isSecretReference(value);
+}
+
+/** A literal key in an opencode.json's perplexity MCP server: its environment or its Authorization header. */
+export function findPlaintextMcpKey(path: string, changes = createFileChanges()): PlaintextKey | null {
+  const mcp = readConfig(path, changes)?.mcp as
+    | Record<string, { environment?: Record<string, unknown>; headers?: Record<string, unknown> }>
+    | undefined;
+  const server = mcp?.[MCP_SERVER_NAME];
+
+  const envKey = server?.environment?.PERPLEXITY_API_KEY;
+  if (isPlaintext(envKey)) {
+    return {
+      path,
+      jsonPath: ["mcp", MCP_SERVER_NAME, "environment", "PERPLEXITY_API_KEY"],
+      key: envKey,
+      prefix: "",
+    };
+  }
+
+  const header = server?.headers?.Authorization;
+  const bearer = typeof header === "string" ? /^Bearer (.+)$/.exec(header) : null;
+  if (bearer && isPlaintext(bearer[1])) {
+    return {
+      path,
+      jsonPath: ["mcp", MCP_SERVER_NAME, "headers", "Authorization"],
+      key: bearer[1],
+      prefix: "Bearer ",
+    };
+  }
+
+  return null;
+}
+
+/** API keys written as literals into perplexity.json or the MCP server's config. */
+export function findPlaintextKeys(changes = createFileChanges()): PlaintextKey[] {
+  const found: PlaintextKey[] = [];
+
+  for (const path of findPerplexityConfigFiles()) {
+    const config = readConfig(path, changes);
+    if (isPlaintext(config?.apiKey)) {
+      found.push({ path, jsonPath: ["apiKey"], key: config.apiKey, prefix: "" });
+    }
+  }
+
+  const opencodePath = findOpencodeConfig();
+  const mcpKey = opencodePath ? findPlaintextMcpKey(opencodePath, changes) : null;
+  if (mcpKey) {
+    found.push(mcpKey);
+  }
+
+  return found;
+}
+
+/** Stages the API key in the secrets file, readable only by the current user. */
+export function stageSecretsFile(changes: FileChanges, key: string): void {
+  stageFile(changes, getSecretsFilePath(), `${key}\n`, { mode: 0o600, secret: true });
+}
+
+/**
+ * Stages moving plaintext API keys into the secrets file (mode 0600) and
+ * replacing them with references: `apiKeyFile` in perplexity.json and
+ * `{file:...}` in opencode.json. Files keep their comments and formatting.
+ */
+export function migratePlaintextKeys(changes: FileChanges): MigrationResult {
+  const found = findPlaintextKeys(changes);
+  if (found.length === 0) {
+    return { migrated: [] };
+  }
+
+  const keys = new Set(found.map((f) => f.key));
+  if (keys.size > 1) {
+    return {
+      migrated: [],
+      error: `${found.map((f) => f.path).join(" and ")} hold different API keys; make them match first`,
+    };
+  }
+
+  const [key] = keys;
+  const secretsPath = getSecretsFilePath();
+  const existing = existsStaged(changes, secretsPath) ? readStaged(changes, secretsPath).trim() : null;
+  if (existing && existing !== key) {
+    return {
+      migrated: [],
+      error: `${getSecretsFilePath()} already holds a different API key; delete it or update it first`,
+    };
+  }
+
+  stageSecretsFile(changes, key);
+
+  for (const { path, jsonPath, prefix } of found) {
+    const content = readStaged(changes, path);
+    stageFile(
+      changes,
+      path,
+      jsonPath[0] === "apiKey"
+        ? removeValue(setValue(content, ["apiKeyFile"], SECRETS_FILE_REFERENCE), ["apiKey"])
+        : setValue(content, jsonPath, `${prefix}${MCP_KEY_REFERENCE}`)
+    );
+  }
+
+  return { migrated: [...new Set(found.map((f) => f.path))] };
+}
+
+export async function secretsMigrate(): Promise<number> {
+  let result: MigrationResult;
+  try {
+    const changes = createFileChanges();
+    result = migratePlaintextKeys(changes);
+    if (!result.error) {
+      applyChanges(changes);
+    }
+  } catch (err) {
+    console.error(`Failed to migrate API keys: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+
+  if (result.error) {
+    console.error(`Cannot migrate API keys: ${result.error}`);
+    return 1;
+  }
+  if (result.migrated.length === 0) {
+    console.log("No plaintext API keys found");
+    return 0;
+  }
+
+  console.log(`Moved the API key to ${getSecretsFilePath()} (readable only by you)`);
+  for (const path of result.migrated) {
+    console.log(`  Replaced the key in ${path} with a reference`);
+  }
+  return 0;
+}
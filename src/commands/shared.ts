@@ -0,0 +1,187 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import * as readline from "node:readline";
+
+export const OPENCODE_CONFIG_DIR = join(homedir(), ".config", "opencode");
+export const PERPLEXITY_CONFIG_PATH = join(OPENCODE_CONFIG_DIR, "perplexity.json");
+export const AGENTS_MD_PATH = join(OPENCODE_CONFIG_DIR, "AGENTS.md");
+export const PLUGIN_NAME = "perplexity-opencode@latest";
+
+export const PERPLEXITY_AGENTS_INSTRUCTIONS = `
+---
+name: perplexity
+description: Use the Perplexity search tool for web search and research. Invoke when needing to search the web for current information, news, documentation, or factual queries.
+---
+
+# How to use Perplexity
+
+Perplexity provides AI-powered web search with citations. Use it when you need up-to-date information from the web.
+
+## When to Use Perplexity
+
+- **Current events and news**: Latest updates, breaking news, recent developments
+- **Factual queries**: Who, what, when, where, how questions
+- **Documentation lookups**: Finding official docs, API references, guides
+- **Comparisons**: Comparing technologies, products, alternatives
+- **Research**: Investigating topics, gathering information
+
+## Available Tool
+
+### perplexity_search
+
+Search the web using Perplexity AI.
+
+**Parameters:**
+- \`query\` (required): The search query
+- \`recency\` (optional): Filter by time period
+  - \`day\`: Last 24 hours
+  - \`week\`: Last 7 days
+  - \`month\`: Last 30 days (default)
+  - \`year\`: Last year
+- \`after\` / \`before\` (optional): Restrict results to a date range (\`YYYY-MM-DD\`)
+- \`model\` (optional): Perplexity model to use (e.g. \`sonar\`, \`sonar-pro\`)
+- \`fresh\` (optional): Skip the result cache. Cached results are marked with their age
+
+**Example Usage:**
+
+\`\`\`
+// For recent news
+perplexity_search(query="latest TypeScript 5.4 features", recency="week")
+
+// For a specific period
+perplexity_search(query="TypeScript release notes", after="2025-07-01", before="2025-09-30")
+
+// For general information
+perplexity_search(query="best practices for React error boundaries")
+
+// For historical context
+perplexity_search(query="history of JavaScript frameworks", recency="year")
+\`\`\`
+
+## Best Practices
+
+1. **Be specific**: Use clear, focused queries for better results
+2. **Use recency filters**: Match the filter to your needs
+   - Breaking news: \`day\`
+   - Recent developments: \`week\`
+   - General info: \`month\`
+   - Historical: \`year\`
+3. **Include citations**: Perplexity returns sources - always cite them in your responses
+4. **Multiple queries**: For comprehensive research, use multiple targeted searches
+5. **Cross-reference**: For important facts, verify across multiple queries
+`;
+
+export function createReadline(): readline.Interface {
+  return readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+}
+
+export async function confirm(rl: readline.Interface, question: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    rl.question(`${question} (y/n) `, (answer) => {
+      resolve(answer.toLowerCase() === "y" || answer.toLowerCase() === "yes");
+    });
+  });
+}
+
+export async function prompt(rl: readline.Interface, question: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      resolve(answer.trim());
+    });
+  });
+}
+
+/** The opencode.json(c) in `dir`: the global config directory, or a project's root. */
+export function findOpencodeConfig(dir = OPENCODE_CONFIG_DIR): string | null {
+  const candidates = [join(dir, "opencode.jsonc"), join(dir, "opencode.json")];
+
+  for (const path of candidates) {
+    if (existsSync(path)) {
+      return path;
+    }
+  }
+
+  return null;
+}
+
+export function isPluginEntry(entry: unknown): boolean {
+  const name = Array.isArray(entry) ? entry[0] : entry;
+  return typeof name === "string" && /^perplexity-opencode(@.*)?$/.test(name);
+}
+
+/**
+ * Version of the AGENTS.md instructions block. Bump it whenever
+ * PERPLEXITY_AGENTS_INSTRUCTIONS changes so `upgrade` replaces older blocks.
+ * Blocks written before the markers existed count as version 1.
+ */
+export const AGENTS_BLOCK_VERSION = 2;
+
+const AGENTS_BLOCK_BEGIN = /^<!-- BEGIN perplexity-opencode instructions v(\d+) -->[^\n]*\n?/m;
+const AGENTS_BLOCK_END = /^<!-- END perplexity-opencode instructions -->[^\n]*\n?/m;
+
+export interface AgentsMdBlock {
+  start: number;
+  end: number;
+  version: number;
+}
+
+/** Wraps the instructions in the markers `upgrade` and `uninstall` look for. */
+export function formatAgentsMdBlock(instructions: string): string {
+  return [
+    `<!-- BEGIN perplexity-opencode instructions v${AGENTS_BLOCK_VERSION} -->`,
+    "<!-- Managed by perplexity-opencode: `upgrade` replaces everything up to the END marker -->",
+    instructions.trim(),
+    "<!-- END perplexity-opencode instructions -->",
+  ].join("\n");
+}
+
+/**
+ * Locates the instructions block appended by `install`: the region between
+ * the markers, or for blocks written before the markers existed, the
+ * frontmatter through the end of the "Best Practices" list.
+ */
+export function findAgentsMdBlock(content: string): AgentsMdBlock | null {
+  const begin = AGENTS_BLOCK_BEGIN.exec(content);
+  if (begin) {
+    const end = AGENTS_BLOCK_END.exec(content.slice(begin.index));
+    if (end) {
+      return {
+        start: begin.index,
+        end: begin.index + end.index + end[0].length,
+        version: Number(begin[1]),
+      };
+    }
+  }
+
+  const startMatch = /^---\r?\nname: perplexity\r?\n/m.exec(content);
+  if (!startMatch) {
+    return null;
+  }
+
+  const start = startMatch.index;
+  const practicesMatch = /^## Best Practices\r?\n/m.exec(content.slice(start));
+  if (!practicesMatch) {
+    return null;
+  }
+
+  let end = start + practicesMatch.index + practicesMatch[0].length;
+  const lines = content.slice(end).split("\n");
+  for (const line of lines) {
+    if (line.trim() !== "" && !/^(\d+\.\s|\s+-\s)/.test(line)) {
+      break;
+    }
+    end += line.length + 1;
+  }
+
+  return { start, end: Math.min(end, content.length), version: 1 };
+}
+
+/** perplexity.json(c) in the global config directory, or in a project's `.opencode` when given. */
+export function findPerplexityConfigFiles(project?: string): string[] {
+  const dir = project ? join(project, ".opencode") : OPENCODE_CONFIG_DIR;
+  return [join(dir, "perplexity.json"), join(dir, "perplexity.jsonc")].filter((path) => existsSync(path));
+}
@@ -0,0 +1,195 @@
+import { getStatsFilePath, readEvents } from "../analytics.js";
+import type { AnalyticsEvent } from "../analytics.js";
+import { dayKey } from "../temporal.js";
+
+export interface StatsOptions {
+  /** Only count events from the last N days */
+  days: number;
+  json: boolean;
+}
+
+interface PatternStats {
+  detections: number;
+  hints: number;
+  followed: number;
+  ignored: number;
+  rejected: number;
+}
+
+export interface StatsReport {
+  days: number;
+  detections: number;
+  forced: number;
+  hints: { full: number; reminder: number };
+  toolCalls: number;
+  followed: number;
+  ignored: number;
+  rejected: number;
+  /** Followed hints as a share of hints with a known outcome */
+  followThrough: number | null;
+  patterns: Record<string, PatternStats>;
+  /** Most common text matched by built-in patterns */
+  phrases: Array<[phrase: string, count: number]>;
+  callsPerDay: Array<[day: string, count: number]>;
+}
+
+const TOP_PHRASES = 10;
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+function percent(value: number | null): string {
+  return value === null ? "-" : `${Math.round(value * 100)}%`;
+}
+
+export function buildReport(events: AnalyticsEvent[], days: number, now = Date.now()): StatsReport {
+  const cutoff = now - days * 86_400_000;
+  const recent = events.filter((e) => Date.parse(e.time) >= cutoff);
+
+  const patterns: Record<string, PatternStats> = {};
+  const pattern = (name: string) =>
+    (patterns[name] ??= { detections: 0, hints: 0, followed: 0, ignored: 0, rejected: 0 });
+
+  const phrases = new Map<string, number>();
+  const callsPerDay = new Map<string, number>();
+
+  const report: StatsReport = {
+    days,
+    detections: 0,
+    forced: 0,
+    hints: { full: 0, reminder: 0 },
+    toolCalls: 0,
+    followed: 0,
+    ignored: 0,
+    rejected: 0,
+    followThrough: null,
+    patterns,
+    phrases: [],
+    callsPerDay: [],
+  };
+
+  for (const event of recent) {
+    switch (event.kind) {
+      case "detection":
+        report.detections++;
+        if (event.forced) report.forced++;
+        event.signals.forEach((name) => pattern(name).detections++);
+        event.phrases?.forEach((phrase) => phrases.set(phrase, (phrases.get(phrase) ?? 0) + 1));
+        break;
+      case "nudge":
+        if (event.level === "full" || event.level === "reminder") {
+          report.hints[event.level]++;
+        }
+        event.signals.forEach((name) => pattern(name).hints++);
+        break;
+      case "tool": {
+        report.toolCalls++;
+        const day = dayKey(event.time);
+        callsPerDay.set(day, (callsPerDay.get(day) ?? 0) + 1);
+        if (event.afterNudge) {
+          report.followed++;
+          event.signals?.forEach((name) => pattern(name).followed++);
+        }
+        break;
+      }
+      case "ignored":
+      case "rejected":
+        report[event.kind]++;
+        event.signals.forEach((name) => pattern(name)[event.kind]++);
+        break;
+    }
+  }
+
+  report.followThrough = ratio(
+    report.followed,
+    report.followed + report.ignored + report.rejected
+  );
+  report.phrases = [...phrases].sort((a, b) => b[1] - a[1]).slice(0, TOP_PHRASES);
+  report.callsPerDay = [...callsPerDay].sort((a, b) => a[0].localeCompare(b[0]));
+
+  return report;
+}
+
+function printTable(header: string[], rows: string[][]): void {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const format = (row: string[]) =>
+    row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  ");
+
+  console.log(`  ${format(header)}`);
+  for (const row of rows) {
+    console.log(`  ${format(row)}`);
+  }
+}
+
+function printReport(report: StatsReport): void {
+  const { hints } = report;
+
+  console.log(`\n Perplexity Usage (last ${report.days} days)\n`);
+  console.log(`  Detections:      ${report.detections} (${report.forced} forced by directives)`);
+  console.log(`  Hints injected:  ${hints.full + hints.reminder} (${hints.full} full, ${hints.reminder} reminders)`);
+  console.log(`  Tool calls:      ${report.toolCalls} (${report.followed} after a hint)`);
+  console.log(`  Follow-through:  ${percent(report.followThrough)} of hints led to a Perplexity tool call`);
+  console.log(`  Ignored hints:   ${report.ignored} (no tool call before the next message)`);
+  console.log(`  Rejected hints:  ${report.rejected} (answered with a !noweb directive)`);
+
+  const patternRows = Object.entries(report.patterns)
+    .sort((a, b) => b[1].detections - a[1].detections)
+    .map(([name, p]) => [
+      name,
+      String(p.detections),
+      String(p.hints),
+      String(p.followed),
+      String(p.ignored),
+      String(p.rejected),
+      percent(ratio(p.followed, p.followed + p.ignored + p.rejected)),
+    ]);
+
+  if (patternRows.length > 0) {
+    console.log("\n Triggers by pattern\n");
+    printTable(
+      ["pattern", "detections", "hints", "followed", "ignored", "rejected", "follow-through"],
+      patternRows
+    );
+    console.log(
+      "\n  Patterns with many ignored or rejected hints and low follow-through are candidates for pruning."
+    );
+  }
+
+  if (report.phrases.length > 0) {
+    console.log("\n Most common matched phrases\n");
+    for (const [phrase, count] of report.phrases) {
+      console.log(`  ${String(count).padStart(5)}  ${phrase}`);
+    }
+  }
+
+  if (report.callsPerDay.length > 0) {
+    console.log("\n Perplexity tool calls per day\n");
+    const max = Math.max(...report.callsPerDay.map(([, count]) => count));
+    for (const [day, count] of report.callsPerDay) {
+      const bar = "#".repeat(Math.max(1, Math.round((count / max) * 40)));
+      console.log(`  ${day}  ${bar} ${count}`);
+    }
+  }
+
+  console.log("");
+}
+
+export async function stats(options: StatsOptions): Promise<number> {
+  const events = readEvents();
+  const report = buildReport(events, options.days);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return 0;
+  }
+
+  if (events.length === 0) {
+    console.log(`\nNo usage recorded yet in ${getStatsFilePath()}`);
+    console.log("Events are recorded while the plugin runs, unless analytics.enabled is false.\n");
+    return 0;
+  }
+
+  printReport(report);
+  return 0;
+}
@@ -0,0 +1,315 @@
+import { existsSync, rmSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+import {
+  applyChanges,
+  createFileChanges,
+  existsStaged,
+  getBackupsDir,
+  readStaged,
+  stageFile,
+  stageRemoval,
+  writeChanges,
+} from "./changes.js";
+import type { FileChanges } from "./changes.js";
+import {
+  AGENTS_MD_PATH,
+  createReadline,
+  confirm,
+  findOpencodeConfig,
+  isPluginEntry,
+  findAgentsMdBlock,
+  findPerplexityConfigFiles,
+} from "./shared.js";
+import { parse, removeValue } from "../jsonc.js";
+import { getSecretsFilePath } from "../secrets.js";
+
+function removePluginFromConfig(changes: FileChanges, configPath: string): boolean {
+  try {
+    const content = readStaged(changes, configPath);
+    let config: Record<string, unknown>;
+
+    try {
+      config = parse(content) as Record<string, unknown>;
+    } catch (err) {
+      console.error(`  Failed to parse config file: ${err instanceof Error ? err.message : err}`);
+      return false;
+    }
+
+    const plugins = Array.isArray(config.plugin) ? config.plugin : [];
+    if (!plugins.some(isPluginEntry)) {
+      console.log("  Plugin not registered in config");
+      return true;
+    }
+
+    // Remove from the end so earlier indices stay valid
+    let newContent = content;
+    for (let i = plugins.length - 1; i >= 0; i--) {
+      if (isPluginEntry(plugins[i])) {
+        newContent = removeValue(newContent, ["plugin", i]);
+      }
+    }
+
+    stageFile(changes, configPath, newContent);
+    console.log(`  Removed plugin from ${configPath}`);
+    return true;
+  } catch (err) {
+    console.error("  Failed to update config:", err);
+    return false;
+  }
+}
+
+function removeMcpServerFromConfig(changes: FileChanges, configPath: string): boolean {
+  try {
+    const content = readStaged(changes, configPath);
+    let config: Record<string, unknown>;
+
+    try {
+      config = parse(content) as Record<string, unknown>;
+    } catch (err) {
+      console.error(`  Failed to parse config file: ${err instanceof Error ? err.message : err}`);
+      return false;
+    }
+
+    const mcp = config.mcp as Record<string, unknown> | undefined;
+
+    if (!mcp || !mcp.perplexity) {
+      console.log("  MCP server 'perplexity' not configured");
+      return true;
+    }
+
+    const onlyServer = Object.keys(mcp).length === 1;
+    stageFile(changes, configPath, removeValue(content, onlyServer ? ["mcp"] : ["mcp", "perplexity"]));
+    console.log("  Removed MCP server 'perplexity' from config");
+    return true;
+  } catch (err) {
+    console.error("  Failed to remove MCP server:", err);
+    return false;
+  }
+}
+
+function removeAgentsMdBlock(changes: FileChanges, agentsMdPath = AGENTS_MD_PATH): boolean {
+  if (!existsStaged(changes, agentsMdPath)) {
+    console.log(`  ${agentsMdPath} not found`);
+    return true;
+  }
+
+  try {
+    const content = readStaged(changes, agentsMdPath);
+    const block = findAgentsMdBlock(content);
+
+    if (!block) {
+      if (content.includes("# How to use Perplexity")) {
+        console.log("  Perplexity instructions in AGENTS.md were modified; remove them manually");
+        return false;
+      }
+      console.log("  Perplexity instructions not found in AGENTS.md");
+      return true;
+    }
+
+    const before = content.slice(0, block.start).trimEnd();
+    const after = content.slice(block.end).trim();
+    const newContent = [before, after].filter(Boolean).join("\n\n");
+
+    if (newContent === "") {
+      stageRemoval(changes, agentsMdPath);
+      console.log(`  Removed ${agentsMdPath} (it only contained Perplexity instructions)`);
+    } else {
+      stageFile(changes, agentsMdPath, newContent + "\n");
+      console.log("  Removed Perplexity instructions from AGENTS.md");
+    }
+    return true;
+  } catch (err) {
+    console.error("  Failed to update AGENTS.md:", err);
+    return false;
+  }
+}
+
+export interface UninstallOptions {
+  tui: boolean;
+  purge: boolean;
+  /** Uninstall from this project's config instead of ~/.config/opencode */
+  project?: string;
+}
+
+/**
+ * Removes what `install --project` added: the plugin and MCP server in the
+ * project's opencode.json, the instructions in its AGENTS.md and its
+ * `.opencode/perplexity.json`. The key lives with each user, so there is no
+ * key file to delete.
+ */
+async function uninstallProject(options: UninstallOptions, directory: string): Promise<number> {
+  console.log(`\n Perplexity OpenCode Plugin Uninstaller (project: ${directory})\n`);
+
+  if (!existsSync(directory)) {
+    console.error(`  ${directory} does not exist\n`);
+    return 1;
+  }
+
+  const rl = options.tui ? createReadline() : null;
+  const changes = createFileChanges();
+  let failed = false;
+
+  // Step 1: Unregister plugin and MCP server from the project's OpenCode config
+  console.log("Step 1: Update the Project's OpenCode Config");
+  const configPath = findOpencodeConfig(directory);
+  if (!configPath) {
+    console.log(`  No OpenCode config found in ${directory}`);
+  } else if (!(options.tui && rl) || (await confirm(rl, `Modify ${configPath}?`))) {
+    failed = !removePluginFromConfig(changes, configPath) || failed;
+    failed = !removeMcpServerFromConfig(changes, configPath) || failed;
+  } else {
+    console.log("  Skipped.");
+  }
+
+  // Step 2: Remove Perplexity instructions from the project's AGENTS.md
+  const agentsMdPath = join(directory, "AGENTS.md");
+  console.log("\nStep 2: Remove Perplexity Instructions from AGENTS.md");
+  if (
+    !(options.tui && rl && existsSync(agentsMdPath)) ||
+    (await confirm(rl, `Remove Perplexity usage instructions from ${agentsMdPath}?`))
+  ) {
+    failed = !removeAgentsMdBlock(changes, agentsMdPath) || failed;
+  } else {
+    console.log("  Skipped.");
+  }
+
+  // Step 3: Delete the project's Perplexity config; it never holds a key
+  console.log("\nStep 3: Remove Project Perplexity Config");
+  const perplexityConfigs = findPerplexityConfigFiles(directory);
+  if (perplexityConfigs.length === 0) {
+    console.log("  No project Perplexity config found");
+  }
+  for (const path of perplexityConfigs) {
+    let shouldDelete = options.purge;
+    if (!shouldDelete && options.tui && rl) {
+      shouldDelete = await confirm(rl, `Delete ${path}? It holds the repository's plugin settings.`);
+    }
+
+    if (shouldDelete) {
+      stageRemoval(changes, path);
+      console.log(`  Deleted ${path}`);
+    } else {
+      console.log(`  Kept ${path}${options.tui ? "" : " (pass --purge to delete it)"}`);
+    }
+  }
+
+  failed = !writeChanges(changes, "uninstall") || failed;
+
+  console.log("\n" + "-".repeat(50));
+  if (failed) {
+    console.log("\n Uninstall finished with errors. Review the messages above.\n");
+  } else {
+    console.log("\n Project Uninstall Complete!\n");
+    console.log("Commit the changes so the plugin is removed for everyone who uses the repository.\n");
+  }
+
+  if (rl) rl.close();
+  return failed ? 1 : 0;
+}
+
+export async function uninstall(options: UninstallOptions): Promise<number> {
+  if (options.project !== undefined) {
+    return uninstallProject(options, resolve(options.project));
+  }
+
+  console.log("\n Perplexity OpenCode Plugin Uninstaller\n");
+
+  const rl = options.tui ? createReadline() : null;
+  const changes = createFileChanges();
+  let failed = false;
+
+  // Step 1: Unregister plugin and MCP server from OpenCode config
+  console.log("Step 1: Update OpenCode Config");
+  const configPath = findOpencodeConfig();
+
+  if (!configPath) {
+    console.log("  No OpenCode config found");
+  } else {
+    let shouldModify = true;
+    if (options.tui && rl) {
+      shouldModify = await confirm(rl, `Modify ${configPath}?`);
+    }
+
+    if (shouldModify) {
+      failed = !removePluginFromConfig(changes, configPath) || failed;
+      failed = !removeMcpServerFromConfig(changes, configPath) || failed;
+    } else {
+      console.log("  Skipped.");
+    }
+  }
+
+  // Step 2: Remove Perplexity instructions from AGENTS.md
+  console.log("\nStep 2: Remove Perplexity Instructions from AGENTS.md");
+  let shouldUpdate = true;
+  if (options.tui && rl && existsSync(AGENTS_MD_PATH)) {
+    shouldUpdate = await confirm(rl, "Remove Perplexity usage instructions from ~/.config/opencode/AGENTS.md?");
+  }
+
+  if (shouldUpdate) {
+    failed = !removeAgentsMdBlock(changes) || failed;
+  } else {
+    console.log("  Skipped.");
+  }
+
+  // Step 3: Delete Perplexity config and key files
+  console.log("\nStep 3: Remove Perplexity Config");
+  const perplexityConfigs = [...findPerplexityConfigFiles(), getSecretsFilePath(), getBackupsDir()].filter(
+    (path) => existsSync(path)
+  );
+
+  if (perplexityConfigs.length === 0) {
+    console.log("  No Perplexity config found");
+  }
+
+  let deleteBackups = false;
+  for (const path of perplexityConfigs) {
+    let shouldDelete = options.purge;
+    if (!shouldDelete && options.tui && rl) {
+      const note =
+        path === getSecretsFilePath()
+          ? "It contains your API key."
+          : path === getBackupsDir()
+            ? "It holds the backups install made, which may contain your API key, so restore could no longer undo this uninstall."
+            : "It may contain your API key.";
+      shouldDelete = await confirm(rl, `Delete ${path}? ${note}`);
+    }
+
+    if (!shouldDelete) {
+      console.log(`  Kept ${path}${options.tui ? "" : " (pass --purge to delete it)"}`);
+    } else if (path === getBackupsDir()) {
+      deleteBackups = true;
+    } else {
+      stageRemoval(changes, path, { secret: true });
+      console.log(`  Deleted ${path}`);
+    }
+  }
+
+  // The files are backed up first, so `restore` can undo the uninstall
+  // unless the backups go too
+  if (!deleteBackups) {
+    failed = !writeChanges(changes, "uninstall") || failed;
+  } else {
+    try {
+      applyChanges(changes);
+      rmSync(getBackupsDir(), { recursive: true, force: true });
+      console.log(`  Deleted ${getBackupsDir()} (restore cannot undo this uninstall)`);
+    } catch (err) {
+      console.error(`\n  Failed to write the changes: ${err instanceof Error ? err.message : String(err)}`);
+      failed = true;
+    }
+  }
+
+  // Summary
+  console.log("\n" + "-".repeat(50));
+
+  if (failed) {
+    console.log("\n Uninstall finished with errors. Review the messages above.\n");
+  } else {
+    console.log("\n Uninstall Complete!\n");
+    console.log("Restart OpenCode to deactivate the plugin.\n");
+  }
+
+  if (rl) rl.close();
+  return failed ? 1 : 0;
+}
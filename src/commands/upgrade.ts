@@ -0,0 +1,131 @@
+import { existsSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+import { createFileChanges, hasPendingChanges, printDryRun, writeChanges } from "./changes.js";
+import type { FileChanges } from "./changes.js";
+import { refreshAgentsMdBlock } from "./install.js";
+import { CONFIG_VERSION, migrateConfig, migrateProjectConfig } from "./migrations.js";
+import type { MigrationStep } from "./migrations.js";
+import { AGENTS_MD_PATH } from "./shared.js";
+
+export interface UpgradeOptions {
+  /** Print a diff of the changes instead of writing them */
+  dryRun: boolean;
+  /** Upgrade this project's files instead of ~/.config/opencode */
+  project?: string;
+}
+
+/** Writes the staged changes, or prints them for a dry run; returns the exit code. */
+function finish(changes: FileChanges, options: UpgradeOptions): number {
+  if (options.dryRun) {
+    printDryRun(changes, "upgrade");
+    return 0;
+  }
+
+  const changed = hasPendingChanges(changes);
+  if (!writeChanges(changes, "upgrade")) {
+    return 1;
+  }
+
+  console.log("\n" + "-".repeat(50));
+  console.log(changed ? "\n Upgrade Complete!\n" : "\n Everything is up to date.\n");
+  if (changed) {
+    console.log("Restart OpenCode to pick up the changes.\n");
+  }
+  return 0;
+}
+
+/**
+ * Upgrades the files `install --project` wrote: the project's
+ * `.opencode/perplexity.json`, its MCP server entry and the instructions
+ * block in its AGENTS.md.
+ */
+async function upgradeProject(options: UpgradeOptions, directory: string): Promise<number> {
+  console.log(`\n Perplexity OpenCode Upgrade (project: ${directory})\n`);
+
+  if (!existsSync(directory)) {
+    console.error(`  ${directory} does not exist\n`);
+    return 1;
+  }
+
+  const changes = createFileChanges();
+  if (options.dryRun) {
+    console.log("Dry run: nothing is written; the changes are shown at the end.\n");
+  }
+
+  // Step 1: Drop ignored settings and plaintext keys from the project's files
+  console.log("Step 1: Migrate Project Config");
+  let notes: string[];
+  try {
+    notes = migrateProjectConfig(changes, directory);
+  } catch (err) {
+    console.error(`  Migration failed: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("\n  No files were changed.\n");
+    return 1;
+  }
+  for (const note of notes.length > 0 ? notes : ["Project config is up to date"]) {
+    console.log(`  ${note}`);
+  }
+
+  // Step 2: Replace the instructions block in the project's AGENTS.md
+  const agentsMdPath = join(directory, "AGENTS.md");
+  console.log("\nStep 2: Update AGENTS.md Instructions");
+  if (!existsSync(agentsMdPath)) {
+    console.log(`  ${agentsMdPath} not found`);
+  } else if (!refreshAgentsMdBlock(changes, agentsMdPath, directory)) {
+    console.error("\n  No files were changed.\n");
+    return 1;
+  }
+
+  return finish(changes, options);
+}
+
+/**
+ * Brings files written by older versions of the plugin up to date: runs the
+ * pending config migrations and replaces the AGENTS.md instructions block.
+ * Everything is written in one transaction, backed up like an install.
+ */
+export async function upgrade(options: UpgradeOptions): Promise<number> {
+  if (options.project !== undefined) {
+    return upgradeProject(options, resolve(options.project));
+  }
+
+  console.log("\n Perplexity OpenCode Upgrade\n");
+
+  const changes = createFileChanges();
+  if (options.dryRun) {
+    console.log("Dry run: nothing is written; the changes are shown at the end.\n");
+  }
+
+  // Step 1: Migrate perplexity.json and the MCP server entry
+  console.log("Step 1: Migrate Config");
+  let steps: MigrationStep[];
+  try {
+    steps = migrateConfig(changes);
+  } catch (err) {
+    console.error(`  Migration failed: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("\n  No files were changed.\n");
+    return 1;
+  }
+
+  if (steps.length === 0) {
+    console.log(`  Config is up to date (version ${CONFIG_VERSION})`);
+  }
+  for (const step of steps) {
+    console.log(`  v${step.version}: ${step.description}`);
+    for (const note of step.notes.length > 0 ? step.notes : ["Nothing to change"]) {
+      console.log(`    ${note}`);
+    }
+  }
+
+  // Step 2: Replace the instructions block
+  console.log("\nStep 2: Update AGENTS.md Instructions");
+  if (!existsSync(AGENTS_MD_PATH)) {
+    console.log(`  ${AGENTS_MD_PATH} not found`);
+  } else if (!refreshAgentsMdBlock(changes, AGENTS_MD_PATH)) {
+    console.error("\n  No files were changed.\n");
+    return 1;
+  }
+
+  return finish(changes, options);
+}
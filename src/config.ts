@@ -1,82 +1,632 @@
-import { existsSync, readFileSync } from "fs";
+import { existsSync, readFileSync, realpathSync } from "fs";
 import { homedir } from "os";
-import { join } from "path";
+import { dirname, isAbsolute, join, relative, resolve } from "path";
+
+import { parse } from "./jsonc.js";
+import type { KeywordCategory } from "./keywords.js";
+import { validateConfig } from "./schema.js";
+import type { ValidationIssue } from "./schema.js";
+import { readSecretFile, resolveEnvReference, runSecretCommand } from "./secrets.js";
 
 export interface PerplexityConfig {
+  /** Format version of this file, written by install and advanced by `upgrade` */
+  configVersion?: number;
+  /** The key itself or an `{env:VAR}` reference; resolved from `apiKeyFile` or `apiKeyCommand` when those win */
   apiKey: string;
+  /** File holding the API key */
+  apiKeyFile?: string;
+  /** Shell command that prints the API key, e.g. `pass show perplexity` */
+  apiKeyCommand?: string;
+  /** Where the perplexity MCP server runs: `stdio://<command>` or an http(s) URL */
   mcpUrl?: string;
+  /** Tools the MCP server provides, as listed by `install` (without OpenCode's server prefix) */
+  mcpTools?: string[];
   model?: string;
+  baseUrl?: string;
   keywords?: {
     enabled?: boolean;
     customPatterns?: string[];
+    threshold?: number;
+    /** Language packs to match, or "auto" to add the message's detected language */
+    languages?: string[];
+  };
+  nudges?: {
+    cooldownMessages?: number;
+    cooldownMinutes?: number;
+    repeat?: "reminder" | "none";
+    /** Ask the agent to search in the language the user wrote in */
+    matchLanguage?: boolean;
+  };
+  directives?: {
+    enabled?: boolean;
+    prefix?: string;
+  };
+  logging?: {
+    level?: "trace" | "debug" | "info" | "warn" | "error";
+    /** Write to the rotating log file; when off, records are dropped */
+    file?: boolean;
+    maxSizeKb?: number;
+    maxFiles?: number;
+    /** Include message text in log records */
+    logContent?: boolean;
+  };
+  /** On-disk cache of perplexity_search results */
+  cache?: {
+    enabled?: boolean;
+    /** Minutes a result stays fresh, per recency filter */
+    ttlMinutes?: Partial<Record<"day" | "week" | "month" | "year", number>>;
+    maxSizeKb?: number;
+  };
+  /** Rewriting of Perplexity tool output into a numbered source list */
+  citations?: {
+    enabled?: boolean;
+    flagUnsourced?: boolean;
+  };
+  /** Local record of detections, hints and tool calls for `perplexity-opencode stats` */
+  analytics?: {
+    enabled?: boolean;
+    retentionDays?: number;
+  };
+  /** Checks on queries before they are sent to Perplexity */
+  guard?: {
+    enabled?: boolean;
+    /** What to do with a query that contains a finding */
+    action?: "redact" | "block" | "warn";
+    /** Detect API keys, tokens, JWTs and private keys */
+    secrets?: boolean;
+    /** Domains whose hosts (and subdomains) must not appear in queries */
+    internalDomains?: string[];
+    /** Case-insensitive regular expressions for anything else, e.g. customer names */
+    denyPatterns?: string[];
+  };
+  /** Limits on Perplexity tool calls, counted in ~/.config/opencode/perplexity-budget.json */
+  budget?: {
+    enabled?: boolean;
+    /** Calls per OpenCode session; 0 for no limit */
+    sessionCalls?: number;
+    /** Calls per day, across sessions; 0 for no limit */
+    dailyCalls?: number;
+    /** Estimated US dollars per day; 0 for no limit */
+    dailyCost?: number;
+    /** Estimated US dollars per call, by model */
+    modelCosts?: Record<string, number>;
   };
+  /** Tool and model to point the agent at, per detected category */
+  routing?: Partial<Record<KeywordCategory, Route>>;
+  /** Absolute paths of template files, keyed by template name */
+  templates?: Partial<Record<TemplateName, string>>;
+}
+
+export interface Route {
+  /** Tool the hint tells the agent to call (default perplexity_search) */
+  tool?: string;
+  /** Model to pass to the tool (default `model`) */
+  model?: string;
+}
+
+export type TemplateName =
+  | "search"
+  | "research"
+  | "news"
+  | "docs"
+  | "comparison"
+  | "factual"
+  | "reasoning"
+  | "reminder"
+  | "agents";
+
+/**
+ * Where an effective config value came from. Layers are applied in this
+ * order, each overriding the previous: built-in defaults, environment
+ * variables, the global `~/.config/opencode/perplexity.json`, then the
+ * project's `.opencode/perplexity.json`.
+ */
+export type ConfigSource = "default" | "env" | "global" | "project";
+
+export interface ConfigOrigin {
+  source: ConfigSource;
+  /** File path or environment variable name */
+  location?: string;
+}
+
+export interface ConfigIssue extends ValidationIssue {
+  file: string;
+}
+
+export interface LoadedConfig {
+  config: PerplexityConfig;
+  /** Syntax and schema problems found in the config files; invalid values are ignored */
+  issues: ConfigIssue[];
+  /** Origin of each effective leaf value, keyed by dotted path */
+  origins: Record<string, ConfigOrigin>;
+  globalFile: string | null;
+  projectFile: string | null;
+}
+
+interface ConfigLayer {
+  source: ConfigSource;
+  location?: string;
+  values: Record<string, unknown>;
+  /** Env layers name each value's variable individually */
+  locations?: Record<string, string>;
 }
 
 const CONFIG_DIR = join(homedir(), ".config", "opencode");
 const CONFIG_FILE = "perplexity.json";
 const CONFIG_FILE_JSONC = "perplexity.jsonc";
+const PROJECT_CONFIG_DIR = ".opencode";
 
-function stripJsonComments(jsonString: string): string {
-  // Remove single-line comments
-  let result = jsonString.replace(/\/\/.*$/gm, "");
-  // Remove multi-line comments
-  result = result.replace(/\/\*[\s\S]*?\*\//g, "");
-  return result;
-}
+// Arrays at these paths are concatenated across layers instead of replaced,
+// so a project can add patterns without repeating the global ones.
+const ADDITIVE_ARRAYS = new Set(["keywords.customPatterns", "guard.internalDomains", "guard.denyPatterns"]);
+
+const DEFAULTS: PerplexityConfig = {
+  apiKey: "",
+  model: "sonar",
+  baseUrl: "https://api.perplexity.ai",
+  keywords: {
+    enabled: true,
+    customPatterns: [],
+    threshold: 0.5,
+    languages: ["en"],
+  },
+  nudges: {
+    cooldownMessages: 10,
+    cooldownMinutes: 0,
+    repeat: "reminder",
+    matchLanguage: false,
+  },
+  directives: {
+    enabled: true,
+    prefix: "!",
+  },
+  logging: {
+    level: "warn",
+    file: true,
+    maxSizeKb: 1024,
+    maxFiles: 3,
+    logContent: false,
+  },
+  cache: {
+    enabled: true,
+    ttlMinutes: {
+      day: 60,
+      week: 360,
+      month: 1440,
+      year: 10080,
+    },
+    maxSizeKb: 5120,
+  },
+  citations: {
+    enabled: true,
+    flagUnsourced: true,
+  },
+  analytics: {
+    enabled: true,
+    retentionDays: 90,
+  },
+  guard: {
+    enabled: true,
+    action: "redact",
+    secrets: true,
+    internalDomains: [],
+    denyPatterns: [],
+  },
+  // Rough per-call estimates from Perplexity's request and token pricing
+  budget: {
+    enabled: true,
+    sessionCalls: 0,
+    dailyCalls: 0,
+    dailyCost: 0,
+    modelCosts: {
+      sonar: 0.01,
+      "sonar-pro": 0.02,
+      "sonar-reasoning": 0.01,
+      "sonar-reasoning-pro": 0.02,
+      "sonar-deep-research": 0.5,
+    },
+  },
+  // Categories without a route use `model`
+  routing: {
+    comparison: { model: "sonar-pro" },
+    reasoning: { model: "sonar-reasoning-pro" },
+    research: { model: "sonar-deep-research" },
+  },
+};
 
-function loadConfigFile(): Partial<PerplexityConfig> {
-  const jsonPath = join(CONFIG_DIR, CONFIG_FILE);
-  const jsoncPath = join(CONFIG_DIR, CONFIG_FILE_JSONC);
+const ENV_VARIABLES: Record<string, string> = {
+  apiKey: "PERPLEXITY_API_KEY",
+  mcpUrl: "PERPLEXITY_MCP_URL",
+  model: "PERPLEXITY_MODEL",
+  baseUrl: "PERPLEXITY_BASE_URL",
+  "logging.level": "PERPLEXITY_LOG_LEVEL",
+};
+
+function findConfigFile(dir: string): string | null {
+  const jsonPath = join(dir, CONFIG_FILE);
+  const jsoncPath = join(dir, CONFIG_FILE_JSONC);
 
-  let configPath: string | null = null;
   if (existsSync(jsonPath)) {
-    configPath = jsonPath;
-  } else if (existsSync(jsoncPath)) {
-    configPath = jsoncPath;
+    return jsonPath;
+  }
+  if (existsSync(jsoncPath)) {
+    return jsoncPath;
+  }
+  return null;
+}
+
+/**
+ * Walks up from `directory` looking for `.opencode/perplexity.json(c)`.
+ */
+export function findProjectConfigFile(directory: string): string | null {
+  let dir = resolve(directory);
+
+  while (true) {
+    const configPath = findConfigFile(join(dir, PROJECT_CONFIG_DIR));
+    if (configPath) {
+      return configPath;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
   }
+}
 
+function resolveConfigPath(path: string, baseDir: string): string {
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : resolve(baseDir, path);
+}
+
+// Template and key file paths are relative to the file that declares them, so
+// a project's templates can be checked in next to its config.
+function resolvePaths(values: Record<string, unknown>, baseDir: string): void {
+  if (typeof values.apiKeyFile === "string" && values.apiKeyFile !== "") {
+    values.apiKeyFile = resolveConfigPath(values.apiKeyFile, baseDir);
+  }
+  if (!isPlainObject(values.templates)) {
+    return;
+  }
+  for (const [name, path] of Object.entries(values.templates)) {
+    if (typeof path !== "string" || path === "") continue;
+    values.templates[name] = resolveConfigPath(path, baseDir);
+  }
+}
+
+function loadConfigFile(
+  configPath: string | null,
+  issues: ConfigIssue[]
+): Record<string, unknown> {
   if (!configPath) {
     return {};
   }
 
+  let parsed: unknown;
   try {
-    const content = readFileSync(configPath, "utf-8");
-    const stripped = stripJsonComments(content);
-    return JSON.parse(stripped);
+    parsed = parse(readFileSync(configPath, "utf-8"));
   } catch (error) {
-    console.error(`Error reading Perplexity config from ${configPath}:`, error);
+    issues.push({
+      file: configPath,
+      path: "(syntax)",
+      message: error instanceof Error ? error.message : String(error),
+    });
     return {};
   }
+
+  const { value, issues: schemaIssues } = validateConfig(parsed);
+  for (const issue of schemaIssues) {
+    issues.push({ file: configPath, ...issue });
+  }
+  // `$schema` is only there for editors
+  delete value.$schema;
+  resolvePaths(value, dirname(configPath));
+  return value;
 }
 
-function loadConfig(): PerplexityConfig {
-  const fileConfig = loadConfigFile();
+function loadEnvLayer(): ConfigLayer {
+  const values: Record<string, unknown> = {};
+  const locations: Record<string, string> = {};
 
-  const apiKey =
-    fileConfig.apiKey || process.env.PERPLEXITY_API_KEY || "";
+  const set = (path: string, value: string, variable: string) => {
+    const keys = path.split(".");
+    let target = values;
+    for (const key of keys.slice(0, -1)) {
+      target = (target[key] ??= {}) as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+    locations[path] = variable;
+  };
 
-  const mcpUrl =
-    fileConfig.mcpUrl ||
-    process.env.PERPLEXITY_MCP_URL ||
-    "stdio://perplexity-mcp";
+  for (const [path, variable] of Object.entries(ENV_VARIABLES)) {
+    const value = process.env[variable];
+    if (value) {
+      set(path, value, variable);
+    }
+  }
 
-  const model =
-    fileConfig.model || process.env.PERPLEXITY_MODEL || "sonar";
+  // The older on/off switch, kept as a shorthand for PERPLEXITY_LOG_LEVEL=debug
+  if (process.env.PERPLEXITY_DEBUG === "true" && !process.env.PERPLEXITY_LOG_LEVEL) {
+    set("logging.level", "debug", "PERPLEXITY_DEBUG");
+  }
 
-  const keywords = {
-    enabled: fileConfig.keywords?.enabled ?? true,
-    customPatterns: fileConfig.keywords?.customPatterns ?? [],
-  };
+  return { source: "env", values, locations };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function applyLayer(
+  target: Record<string, unknown>,
+  origins: Record<string, ConfigOrigin>,
+  layer: ConfigLayer,
+  values: Record<string, unknown> = layer.values,
+  prefix = ""
+): void {
+  for (const [key, value] of Object.entries(values)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const origin: ConfigOrigin = {
+      source: layer.source,
+      location: layer.locations?.[path] ?? layer.location,
+    };
+
+    // An empty string (e.g. `"apiKey": ""`) means "not set" outside the defaults
+    if (value === undefined || (value === "" && layer.source !== "default")) {
+      continue;
+    }
+
+    if (isPlainObject(value)) {
+      const existing = isPlainObject(target[key]) ? target[key] : {};
+      target[key] = { ...(existing as Record<string, unknown>) };
+      applyLayer(target[key] as Record<string, unknown>, origins, layer, value, path);
+      continue;
+    }
+
+    if (Array.isArray(value) && ADDITIVE_ARRAYS.has(path)) {
+      const existing = Array.isArray(target[key]) ? (target[key] as unknown[]) : [];
+      // Items carry their own origins; an array that is still empty takes the last layer that set it
+      if (existing.length === 0 && value.length === 0) {
+        origins[path] = origin;
+      }
+      value.forEach((item, i) => {
+        origins[`${path}[${existing.length + i}]`] = origin;
+      });
+      target[key] = [...existing, ...value];
+      continue;
+    }
+
+    target[key] = value;
+    origins[path] = origin;
+  }
+}
+
+// A checked-in project config comes from whoever wrote the repository. It may
+// tune detection and hints, but not choose where the API key is sent, run
+// commands or read files outside the project on the user's behalf, or loosen
+// the guard and budget the user set up.
+const PROJECT_KEYS = new Set([
+  "configVersion",
+  "model",
+  "mcpTools",
+  "keywords",
+  "nudges",
+  "directives",
+  "logging",
+  "cache",
+  "citations",
+  "analytics",
+  "guard",
+  "budget",
+  "routing",
+  "templates",
+]);
+
+/** Whether a project's `.opencode/perplexity.json` may set this top-level key. */
+export function isProjectSetting(key: string): boolean {
+  return PROJECT_KEYS.has(key);
+}
+
+const GUARD_STRICTNESS: Record<string, number> = { warn: 0, redact: 1, block: 2 };
+
+const BUDGET_LIMITS = ["sessionCalls", "dailyCalls", "dailyCost"] as const;
+
+function isInsideDirectory(root: string, path: string): boolean {
+  // Resolve symlinks, which a cloned repository can point anywhere
+  const real = (p: string) => (existsSync(p) ? realpathSync(p) : p);
+  const rel = relative(real(root), real(path));
+  return rel !== "" && !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+function restrictGuard(
+  guard: Record<string, unknown>,
+  lower: Record<string, unknown>,
+  reject: (path: string, message: string) => void
+): void {
+  for (const key of ["enabled", "secrets"]) {
+    if (guard[key] === false) {
+      reject(`guard.${key}`, "can't be turned off in a project config");
+      delete guard[key];
+    }
+  }
+  const action = guard.action;
+  if (typeof action === "string" && GUARD_STRICTNESS[action] < GUARD_STRICTNESS[String(lower.action ?? "redact")]) {
+    reject("guard.action", `can't be less strict than "${lower.action}" in a project config`);
+    delete guard.action;
+  }
+}
+
+function restrictBudget(
+  budget: Record<string, unknown>,
+  lower: Record<string, unknown>,
+  reject: (path: string, message: string) => void
+): void {
+  if (budget.enabled === false) {
+    reject("budget.enabled", "can't be turned off in a project config");
+    delete budget.enabled;
+  }
+  for (const key of BUDGET_LIMITS) {
+    const value = budget[key];
+    const limit = typeof lower[key] === "number" ? (lower[key] as number) : 0;
+    // 0 means no limit
+    if (typeof value === "number" && limit > 0 && (value === 0 || value > limit)) {
+      reject(`budget.${key}`, `can only lower the limit of ${limit} in a project config`);
+      delete budget[key];
+    }
+  }
+  if (!isPlainObject(budget.modelCosts)) {
+    return;
+  }
+  const costs = isPlainObject(lower.modelCosts) ? lower.modelCosts : {};
+  for (const [model, cost] of Object.entries(budget.modelCosts)) {
+    const estimate = costs[model];
+    if (typeof cost === "number" && typeof estimate === "number" && cost < estimate) {
+      reject(`budget.modelCosts.${model}`, `can't lower the estimate of ${estimate} in a project config`);
+      delete budget.modelCosts[model];
+    }
+  }
+}
+
+/**
+ * Drops every project setting outside `PROJECT_KEYS`, template paths that
+ * leave the project, and guard or budget settings less strict than `lower`,
+ * the config merged from the layers below. Each one is reported.
+ */
+function restrictProjectValues(
+  values: Record<string, unknown>,
+  lower: Record<string, unknown>,
+  file: string,
+  issues: ConfigIssue[]
+): void {
+  const reject = (path: string, message: string) => issues.push({ file, path, message });
+
+  for (const key of Object.keys(values)) {
+    if (!PROJECT_KEYS.has(key)) {
+      reject(key, "only allowed in the global config");
+      delete values[key];
+    }
+  }
+
+  if (isPlainObject(values.guard)) {
+    restrictGuard(values.guard, isPlainObject(lower.guard) ? lower.guard : {}, reject);
+  }
+  if (isPlainObject(values.budget)) {
+    restrictBudget(values.budget, isPlainObject(lower.budget) ? lower.budget : {}, reject);
+  }
+
+  if (isPlainObject(values.templates)) {
+    // The directory that holds .opencode/
+    const root = dirname(dirname(file));
+    for (const [name, path] of Object.entries(values.templates)) {
+      if (typeof path === "string" && path !== "" && !isInsideDirectory(root, path)) {
+        reject(`templates.${name}`, `must be a file inside the project (${root})`);
+        delete values.templates[name];
+      }
+    }
+  }
+}
+
+const SOURCE_RANK: Record<ConfigSource, number> = { default: 0, env: 1, global: 2, project: 3 };
+
+// Later entries lose ties: a file that sets both apiKey and apiKeyFile uses apiKey
+const API_KEY_SETTINGS = ["apiKey", "apiKeyFile", "apiKeyCommand"] as const;
+
+/**
+ * Replaces `apiKey` with the key from whichever of `apiKey`, `apiKeyFile` and
+ * `apiKeyCommand` was set by the highest layer, resolving `{env:VAR}`. A key
+ * that can't be resolved is reported and left unset.
+ */
+function resolveApiKey(
+  merged: Record<string, unknown>,
+  origins: Record<string, ConfigOrigin>,
+  issues: ConfigIssue[]
+): void {
+  let chosen: (typeof API_KEY_SETTINGS)[number] | null = null;
+  for (const setting of API_KEY_SETTINGS) {
+    const origin = origins[setting];
+    if (typeof merged[setting] !== "string" || merged[setting] === "" || !origin) continue;
+    if (chosen === null || SOURCE_RANK[origin.source] > SOURCE_RANK[origins[chosen].source]) {
+      chosen = setting;
+    }
+  }
+  if (chosen === null) {
+    return;
+  }
+
+  const value = merged[chosen] as string;
+  const origin = origins[chosen];
+
+  try {
+    merged.apiKey =
+      chosen === "apiKeyFile"
+        ? readSecretFile(value)
+        : chosen === "apiKeyCommand"
+          ? runSecretCommand(value)
+          : resolveEnvReference(value);
+    origins.apiKey = origin;
+  } catch (error) {
+    issues.push({
+      file: origin.location ?? origin.source,
+      path: chosen,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    merged.apiKey = "";
+  }
+}
+
+export function loadConfig(directory?: string): LoadedConfig {
+  const globalFile = findConfigFile(CONFIG_DIR);
+  const projectFile = directory ? findProjectConfigFile(directory) : null;
+
+  const issues: ConfigIssue[] = [];
+
+  const layers: ConfigLayer[] = [
+    { source: "default", values: DEFAULTS as unknown as Record<string, unknown> },
+    loadEnvLayer(),
+    {
+      source: "global",
+      location: globalFile ?? undefined,
+      values: loadConfigFile(globalFile, issues),
+    },
+  ];
+
+  const merged: Record<string, unknown> = {};
+  const origins: Record<string, ConfigOrigin> = {};
+
+  for (const layer of layers) {
+    applyLayer(merged, origins, layer);
+  }
+
+  if (projectFile && projectFile !== globalFile) {
+    const values = loadConfigFile(projectFile, issues);
+    restrictProjectValues(values, merged, projectFile, issues);
+    applyLayer(merged, origins, { source: "project", location: projectFile, values });
+  }
+
+  resolveApiKey(merged, origins, issues);
 
   return {
-    apiKey,
-    mcpUrl,
-    model,
-    keywords,
+    config: merged as unknown as PerplexityConfig,
+    issues,
+    origins,
+    globalFile,
+    projectFile,
   };
 }
 
-export const config = loadConfig();
+let loaded = loadConfig();
+
+/**
+ * The effective configuration. Starts out with the global layers only and is
+ * replaced by `loadProjectConfig()` once the plugin knows its directory.
+ */
+export let config: PerplexityConfig = loaded.config;
+
+export function loadProjectConfig(directory: string): LoadedConfig {
+  loaded = loadConfig(directory);
+  config = loaded.config;
+  return loaded;
+}
 
 export function isConfigured(): boolean {
   return !!config.apiKey;
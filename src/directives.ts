@@ -0,0 +1,132 @@
+import { config } from "./config.js";
+import { CODE_PATTERN } from "./keywords.js";
+import type { KeywordCategory, KeywordMatch } from "./keywords.js";
+import { isKeywordCategory } from "./routing.js";
+
+export type Directive = {
+  /** `search`/`research` force a hint, `suppress` skips detection, `resume` undoes a session suppress */
+  action: "search" | "research" | "suppress" | "resume";
+  scope: "message" | "session";
+  /** From `!web:<route>`: a routing category or a model name */
+  route?: string;
+  text: string;
+};
+
+export type DirectiveResult = {
+  /** The input with every directive removed */
+  text: string;
+  directives: Directive[];
+};
+
+const DEFAULT_PREFIX = "!";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function getDirectivePattern(): RegExp {
+  const prefix = escapeRegExp(config.directives?.prefix || DEFAULT_PREFIX);
+  // `<prefix>web`, `<prefix>research`, `<prefix>noweb`, optionally followed
+  // by "session", plus the `/pplx [research]` alias. `web`, `research` and
+  // `/pplx` take an optional `:<route>`. Directives must stand alone as words
+  // so "!websocket" or "foo!web" are left untouched.
+  return new RegExp(
+    `(^|\\s)(?:${prefix}(web|research|noweb)(?::([\\w.-]+))?(?:\\s+(session))?|/pplx(?::([\\w.-]+))?(?:\\s+(research))?)(?=\\s|$)[ \\t]*`,
+    "gi"
+  );
+}
+
+function toDirective(
+  text: string,
+  keyword: string | undefined,
+  route: string | undefined,
+  session: string | undefined,
+  pplxResearch: string | undefined
+): Directive {
+  const scope = session ? "session" : "message";
+
+  if (keyword === undefined) {
+    return { action: pplxResearch ? "research" : "search", scope: "message", route, text };
+  }
+
+  switch (keyword.toLowerCase()) {
+    case "noweb":
+      return { action: "suppress", scope, text };
+    case "research":
+      return { action: "research", scope: "message", route, text };
+    default:
+      return session
+        ? { action: "resume", scope, text }
+        : { action: "search", scope, route, text };
+  }
+}
+
+function extractFromProse(text: string, directives: Directive[]): string {
+  return text.replace(
+    getDirectivePattern(),
+    (
+      match,
+      lead: string,
+      keyword?: string,
+      route?: string,
+      session?: string,
+      pplxRoute?: string,
+      pplxResearch?: string
+    ) => {
+      directives.push(
+        toDirective(match.trim(), keyword, route ?? pplxRoute, session, pplxResearch)
+      );
+      return lead;
+    }
+  );
+}
+
+/**
+ * Finds inline directives such as `!web`, `!noweb session` or `/pplx` and
+ * removes them from the text. Directives inside fenced or inline code are
+ * ignored, matching how keyword detection skips code.
+ */
+export function extractDirectives(text: string): DirectiveResult {
+  if (config.directives?.enabled === false) {
+    return { text, directives: [] };
+  }
+
+  const directives: Directive[] = [];
+  const code = new RegExp(CODE_PATTERN.source, "g");
+  let result = "";
+  let last = 0;
+
+  for (const match of text.matchAll(code)) {
+    result += extractFromProse(text.slice(last, match.index), directives);
+    result += match[0];
+    last = match.index! + match[0].length;
+  }
+  result += extractFromProse(text.slice(last), directives);
+
+  return {
+    text: directives.length > 0 ? result.replace(/[ \t]+$/, "") : text,
+    directives,
+  };
+}
+
+/**
+ * Builds the match for a message whose directive forces a search or research
+ * hint. A route naming a category (`!web:reasoning`) selects that category.
+ */
+export function toKeywordMatch(directive: Directive): KeywordMatch {
+  const route = directive.route?.toLowerCase();
+  const category: KeywordCategory =
+    route && isKeywordCategory(route)
+      ? route
+      : directive.action === "research"
+        ? "research"
+        : "search";
+  const type = directive.action === "research" || category === "research" ? "research" : "search";
+  return {
+    type,
+    category,
+    score: 0,
+    matchedText: directive.text,
+    signals: [{ name: "directive", weight: 0, category, text: directive.text }],
+  };
+}
@@ -0,0 +1,164 @@
+import { config } from "./config.js";
+import type { PerplexityConfig } from "./config.js";
+
+export type GuardAction = "redact" | "block" | "warn";
+
+export type GuardFindingKind = "secret" | "domain" | "pattern";
+
+export interface GuardFinding {
+  kind: GuardFindingKind;
+  /** What was found, e.g. "JWT", the internal domain or "denyPatterns[0]"; never the matched text */
+  name: string;
+  start: number;
+  end: number;
+}
+
+export interface GuardResult {
+  /** Null when the query is clean */
+  action: GuardAction | null;
+  findings: GuardFinding[];
+  /** The query to send: redacted when the action is "redact", otherwise unchanged */
+  query: string;
+}
+
+interface NamedPattern {
+  name: string;
+  pattern: RegExp;
+}
+
+type GuardPattern = NamedPattern & { kind: GuardFindingKind };
+
+const SECRET_PATTERNS: NamedPattern[] = [
+  { name: "private key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g },
+  { name: "JWT", pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g },
+  { name: "Perplexity API key", pattern: /\bpplx-[A-Za-z0-9]{20,}/g },
+  { name: "OpenAI or Anthropic API key", pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: "Slack token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "Stripe key", pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { name: "bearer token", pattern: /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g },
+  // `password=hunter2`, `"api_key": "..."`: only the value is a finding
+  {
+    name: "credential",
+    pattern: /(?<=\b(?:password|passwd|secret|token|api[_-]?key)["']?\s*[:=]\s*["']?)[^\s"',;]{6,}/gi,
+  },
+];
+
+let compiled: { guard: PerplexityConfig["guard"]; patterns: GuardPattern[] } | null = null;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Deny patterns are validated when the config is loaded, so compiling here
+// cannot fail; the result is cached until the config is reloaded.
+function compilePatterns(): GuardPattern[] {
+  const guard = config.guard;
+  if (compiled && compiled.guard === guard) {
+    return compiled.patterns;
+  }
+
+  const patterns: GuardPattern[] = [];
+  if (guard?.secrets !== false) {
+    patterns.push(...SECRET_PATTERNS.map((p) => ({ ...p, kind: "secret" as const })));
+  }
+  for (const domain of guard?.internalDomains ?? []) {
+    const name = domain.replace(/^\*?\./, "").toLowerCase();
+    if (!name) continue;
+    // The domain itself and any subdomain, but not "notcorp.example.com"
+    patterns.push({
+      kind: "domain",
+      name,
+      pattern: new RegExp(`(?<![\\w.-])(?:[\\w-]+\\.)*${escapeRegExp(name)}(?![\\w-]|\\.[\\w-])`, "gi"),
+    });
+  }
+  // A deny pattern often spells out what it protects, so findings name it by position
+  for (const [index, pattern] of (guard?.denyPatterns ?? []).entries()) {
+    patterns.push({ kind: "pattern", name: `denyPatterns[${index}]`, pattern: new RegExp(pattern, "gi") });
+  }
+
+  compiled = { guard, patterns };
+  return patterns;
+}
+
+/** Everything in the query that shouldn't leave the machine, in order of position. */
+export function inspectQuery(query: string): GuardFinding[] {
+  const findings: GuardFinding[] = [];
+
+  for (const { kind, name, pattern } of compilePatterns()) {
+    for (const match of query.matchAll(pattern)) {
+      if (match[0].length === 0) continue;
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      // A bearer token that is also a JWT is reported once
+      if (findings.some((f) => start < f.end && end > f.start)) continue;
+      findings.push({ kind, name, start, end });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+function placeholder(finding: GuardFinding): string {
+  switch (finding.kind) {
+    case "secret":
+      return `[redacted ${finding.name}]`;
+    case "domain":
+      return "[internal host]";
+    case "pattern":
+      return "[redacted]";
+  }
+}
+
+export function redactQuery(query: string, findings: GuardFinding[]): string {
+  let result = query;
+  // From the end, so earlier offsets stay valid
+  for (const finding of [...findings].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, finding.start) + placeholder(finding) + result.slice(finding.end);
+  }
+  return result;
+}
+
+/** Checks a query bound for Perplexity and applies `guard.action` to it. */
+export function guardQuery(query: string): GuardResult {
+  const findings = inspectQuery(query);
+  if (findings.length === 0) {
+    return { action: null, findings, query };
+  }
+
+  const action = config.guard?.action ?? "redact";
+  return {
+    action,
+    findings,
+    query: action === "redact" ? redactQuery(query, findings) : query,
+  };
+}
+
+/** Findings as "kind:name" labels for logs, without the matched text. */
+export function describeFindings(findings: GuardFinding[]): string[] {
+  return [...new Set(findings.map((f) => `${f.kind}:${f.name}`))];
+}
+
+function describeReason(finding: GuardFinding): string {
+  switch (finding.kind) {
+    case "secret":
+      return `a secret (${finding.name})`;
+    case "domain":
+      return `an internal host (${finding.name})`;
+    case "pattern":
+      return "text matching a deny pattern";
+  }
+}
+
+/** The error the agent sees when a search is blocked. */
+export function formatBlockMessage(findings: GuardFinding[]): string {
+  const reasons = [...new Set(findings.map(describeReason))];
+  const listed = reasons.length > 1 ? `${reasons.slice(0, -1).join(", ")} and ${reasons[reasons.length - 1]}` : reasons[0];
+  return (
+    `perplexity-opencode blocked this search because the query contains ${listed}. ` +
+    "Queries are sent to an external service. Search again without that information, " +
+    "using general terms, or ask the user how to proceed."
+  );
+}
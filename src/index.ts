@@ -1,24 +1,169 @@
 import type { Plugin, PluginInput } from "@opencode-ai/plugin";
 import type { Part } from "@opencode-ai/sdk";
 
-import { isConfigured } from "./config.js";
+import { config, isConfigured, loadProjectConfig } from "./config.js";
+import { formatIssue } from "./schema.js";
+import { forgetSession } from "./session.js";
+import { extractDirectives } from "./directives.js";
+import { applySessionDirectives, evaluateMessage } from "./pipeline.js";
+import { loadTemplates } from "./templates.js";
+import { isPerplexityTool } from "./routing.js";
+import { normalizeCitations } from "./citations.js";
+import { checkBudget, formatBudgetRefusal, getCallModel, recordBudgetCall } from "./budget.js";
+import { describeFindings, formatBlockMessage, guardQuery } from "./guard.js";
+import type { GuardResult } from "./guard.js";
 import {
-  detectKeywords,
-  getSearchNudge,
-  getResearchNudge,
-} from "./keywords.js";
-import { debug } from "./services/logger.js";
+  forgetAnalyticsSession,
+  pruneEvents,
+  recordDetection,
+  recordNudgeEvent,
+  recordToolCall,
+  recordUserMessage,
+} from "./analytics.js";
+import type { Directive } from "./directives.js";
+import { debug, warn, error as logError } from "./services/logger.js";
+import { SEARCH_TOOL_NAME, isCachedSearch, perplexitySearchTool } from "./tools.js";
+
+/** Blocks, redacts (in `args`) or flags a Perplexity query that would leak secrets or internal names. */
+function guardToolCall(
+  input: { sessionID: string; tool: string; callID: string },
+  args: Record<string, unknown> | undefined
+): void {
+  const query = args?.query;
+  if (!args || config.guard?.enabled === false || typeof query !== "string") {
+    return;
+  }
+
+  let result: GuardResult;
+  try {
+    result = guardQuery(query);
+  } catch (error) {
+    logError("guard.failed", { sessionID: input.sessionID, tool: input.tool, error: String(error) });
+    return;
+  }
+  if (!result.action) return;
+
+  const fields = {
+    sessionID: input.sessionID,
+    tool: input.tool,
+    callID: input.callID,
+    findings: describeFindings(result.findings),
+  };
+
+  if (result.action === "block") {
+    warn("guard.blocked", fields);
+    // OpenCode fails the tool call with this message, so the agent sees why
+    throw new Error(formatBlockMessage(result.findings));
+  }
+  if (result.action === "redact") {
+    args.query = result.query;
+    warn("guard.redacted", fields);
+  } else {
+    warn("guard.flagged", fields);
+  }
+}
 
 export const PerplexityPlugin: Plugin = async (ctx: PluginInput) => {
   const { directory } = ctx;
 
-  debug("Plugin initialized", { directory, configured: isConfigured() });
+  const { globalFile, projectFile, origins, issues } = loadProjectConfig(directory);
+  debug("config.loaded", { globalFile, projectFile, origins });
+
+  for (const issue of issues) {
+    warn("config.invalid", {
+      file: issue.file,
+      issue: formatIssue(issue),
+      message: "value ignored",
+    });
+  }
+
+  for (const issue of loadTemplates().issues) {
+    warn("template.invalid", {
+      file: issue.file,
+      issue: formatIssue(issue),
+      message: "using the built-in text",
+    });
+  }
+
+  pruneEvents();
+
+  debug("plugin.initialized", { directory, configured: isConfigured() });
 
   if (!isConfigured()) {
-    debug("Plugin disabled - PERPLEXITY_API_KEY not set");
+    debug("plugin.disabled", { reason: "PERPLEXITY_API_KEY not set" });
   }
 
   return {
+    tool: {
+      [SEARCH_TOOL_NAME]: perplexitySearchTool,
+    },
+
+    event: async ({ event }) => {
+      if (event.type === "session.deleted") {
+        forgetSession(event.properties.info.id);
+        forgetAnalyticsSession(event.properties.info.id);
+      }
+    },
+
+    "tool.execute.before": async (input, output) => {
+      if (!isPerplexityTool(input.tool)) {
+        return;
+      }
+
+      guardToolCall(input, output.args);
+
+      // A search the cache answers costs nothing, so the budget doesn't refuse it.
+      // The guard goes first because a redacted query has a different cache key.
+      if (isCachedSearch(input.tool, output.args)) {
+        return;
+      }
+
+      const refusal = checkBudget(input.sessionID, getCallModel(input.tool, output.args));
+      if (refusal) {
+        warn("budget.refused", {
+          sessionID: input.sessionID,
+          tool: input.tool,
+          callID: input.callID,
+          limit: refusal.limit,
+        });
+        throw new Error(formatBudgetRefusal(refusal));
+      }
+    },
+
+    "tool.execute.after": async (input, output) => {
+      recordToolCall(input.sessionID, input.tool);
+
+      if (!isPerplexityTool(input.tool)) {
+        return;
+      }
+
+      recordBudgetCall(input.sessionID, input.tool, input.args, output.metadata);
+
+      if (config.citations?.enabled === false) {
+        return;
+      }
+
+      try {
+        const normalized = normalizeCitations(output.output, output.metadata ?? {});
+        if (normalized.unsourced && config.citations?.flagUnsourced === false) {
+          return;
+        }
+
+        output.output = normalized.text;
+        output.metadata = {
+          ...output.metadata,
+          citations: normalized.sources.map((s) => s.url),
+          unsourced: normalized.unsourced,
+        };
+
+        if (normalized.unsourced) {
+          warn("tool.unsourced_answer", { sessionID: input.sessionID, tool: input.tool });
+        }
+      } catch (error) {
+        logError("tool.citations_failed", { sessionID: input.sessionID, error: String(error) });
+      }
+    },
+
     "chat.message": async (input, output) => {
       if (!isConfigured()) return;
 
@@ -30,50 +175,98 @@ export const PerplexityPlugin: Plugin = async (ctx: PluginInput) => {
         );
 
         if (textParts.length === 0) {
-          debug("chat.message: no text parts found");
+          debug("chat.no_text_parts", { sessionID: input.sessionID });
           return;
         }
 
+        const directives: Directive[] = [];
+        for (const part of textParts) {
+          const result = extractDirectives(part.text);
+          if (result.directives.length > 0) {
+            part.text = result.text;
+            directives.push(...result.directives);
+          }
+        }
+
+        applySessionDirectives(input.sessionID, directives);
+
+        if (directives.length > 0) {
+          debug("chat.directives", {
+            sessionID: input.sessionID,
+            directives: directives.map((d) => d.text),
+          });
+        }
+
         const userMessage = textParts.map((p) => p.text).join("\n");
 
         if (!userMessage.trim()) {
-          debug("chat.message: empty message, skipping");
+          debug("chat.empty_message", { sessionID: input.sessionID });
           return;
         }
 
-        debug("chat.message: processing", {
+        recordUserMessage(
+          input.sessionID,
+          directives.some((d) => d.action === "suppress")
+        );
+
+        debug("chat.processing", {
+          sessionID: input.sessionID,
           messagePreview: userMessage.slice(0, 100),
           partsCount: output.parts.length,
         });
 
-        const match = detectKeywords(userMessage);
+        const result = evaluateMessage(input.sessionID, userMessage, directives);
 
-        if (match) {
-          const nudgeText =
-            match.type === "research" ? getResearchNudge() : getSearchNudge();
-          debug(`chat.message: ${match.type} keyword detected`, {
-            matchedText: match.matchedText,
-          });
+        if (result.outcome === "suppressed") {
+          debug("chat.suppressed", { sessionID: input.sessionID, reason: result.reason });
+          return;
+        }
 
-          const nudgePart: Part = {
-            id: `perplexity-${match.type}-nudge-${Date.now()}`,
-            sessionID: input.sessionID,
-            messageID: output.message.id,
-            type: "text",
-            text: nudgeText,
-            synthetic: true,
-          };
-
-          output.parts.push(nudgePart);
-
-          const duration = Date.now() - start;
-          debug(`chat.message: ${match.type} nudge injected`, {
-            duration,
-            matchedText: match.matchedText,
-          });
+        if (result.outcome === "no-match") {
+          return;
         }
+
+        const { match, forced } = result;
+        recordDetection(input.sessionID, match, forced);
+        debug("chat.keyword_detected", {
+          sessionID: input.sessionID,
+          type: match.type,
+          matchedText: match.matchedText,
+          category: match.category,
+          score: match.score,
+          signals: match.signals.map((s) => `${s.name}:${s.weight}`),
+          nudge: result.outcome === "nudge" ? result.level : "none",
+        });
+
+        if (result.outcome === "cooldown") {
+          debug("chat.cooldown", { sessionID: input.sessionID, type: match.type });
+          return;
+        }
+
+        const nudgePart: Part = {
+          id: `perplexity-${match.type}-nudge-${Date.now()}`,
+          sessionID: input.sessionID,
+          messageID: output.message.id,
+          type: "text",
+          text: result.text,
+          synthetic: true,
+        };
+
+        output.parts.push(nudgePart);
+        recordNudgeEvent(input.sessionID, match, result.level, result.route);
+
+        const duration = Date.now() - start;
+        debug("chat.nudge_injected", {
+          sessionID: input.sessionID,
+          type: match.type,
+          duration,
+          nudge: result.level,
+          matchedText: match.matchedText,
+          temporal: result.temporal?.expression,
+          route: result.route,
+        });
       } catch (error) {
-        debug("chat.message: ERROR", { error: String(error) });
+        logError("chat.error", { sessionID: input.sessionID, error: String(error) });
       }
     },
   };
@@ -0,0 +1,565 @@
+/**
+ * Minimal JSONC (JSON with comments) support shared by config loading and the
+ * installer. Parsing tokenizes strings properly, so `//` inside a value such
+ * as a URL is left alone, and accepts trailing commas. Edits are applied as
+ * text splices against the original document, so comments and formatting
+ * outside the edited region are preserved.
+ */
+
+export type JsonPath = (string | number)[];
+
+export class JsoncParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+    readonly column: number,
+    readonly offset: number
+  ) {
+    super(`${reason} at line ${line}, column ${column}`);
+    this.name = "JsoncParseError";
+  }
+}
+
+type JsoncNode = ObjectNode | ArrayNode | ValueNode;
+
+interface ObjectNode {
+  type: "object";
+  offset: number;
+  end: number;
+  properties: PropertyNode[];
+}
+
+interface ArrayNode {
+  type: "array";
+  offset: number;
+  end: number;
+  items: JsoncNode[];
+}
+
+interface ValueNode {
+  type: "value";
+  offset: number;
+  end: number;
+  value: unknown;
+}
+
+interface PropertyNode {
+  key: string;
+  offset: number;
+  value: JsoncNode;
+}
+
+/** A member of an object or array, spanning from its key (if any) to the end of its value. */
+interface Member {
+  offset: number;
+  end: number;
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+function position(text: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Skips whitespace and comments starting at `offset`. Stops at the opening
+ * `/*` of an unterminated block comment.
+ */
+function skipTrivia(text: string, offset: number): number {
+  let pos = offset;
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (ch === " " || ch === "\t" || ch === "\n" || ch === "\r" || ch === "\uFEFF") {
+      pos++;
+    } else if (ch === "/" && text[pos + 1] === "/") {
+      const newline = text.indexOf("\n", pos);
+      pos = newline === -1 ? text.length : newline;
+    } else if (ch === "/" && text[pos + 1] === "*") {
+      const close = text.indexOf("*/", pos + 2);
+      if (close === -1) break;
+      pos = close + 2;
+    } else {
+      break;
+    }
+  }
+  return pos;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parseDocument(): JsoncNode {
+    this.skipTrivia();
+    if (this.pos >= this.text.length) {
+      this.fail("Unexpected end of input");
+    }
+    const node = this.parseValue();
+    this.skipTrivia();
+    if (this.pos < this.text.length) {
+      this.fail(`Unexpected character '${this.text[this.pos]}' after end of document`);
+    }
+    return node;
+  }
+
+  private fail(reason: string, offset = this.pos): never {
+    const { line, column } = position(this.text, offset);
+    throw new JsoncParseError(reason, line, column, offset);
+  }
+
+  private skipTrivia(): void {
+    this.pos = skipTrivia(this.text, this.pos);
+    if (this.text.startsWith("/*", this.pos)) {
+      this.fail("Unterminated block comment");
+    }
+  }
+
+  private parseValue(): JsoncNode {
+    const ch = this.text[this.pos];
+    const offset = this.pos;
+
+    if (ch === "{") return this.parseObject();
+    if (ch === "[") return this.parseArray();
+    if (ch === '"') {
+      const value = this.parseString();
+      return { type: "value", offset, end: this.pos, value };
+    }
+
+    for (const [literal, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (this.text.startsWith(literal, this.pos)) {
+        this.pos += literal.length;
+        return { type: "value", offset, end: this.pos, value };
+      }
+    }
+
+    NUMBER_PATTERN.lastIndex = this.pos;
+    const number = NUMBER_PATTERN.exec(this.text);
+    if (number) {
+      this.pos += number[0].length;
+      return { type: "value", offset, end: this.pos, value: Number(number[0]) };
+    }
+
+    if (ch === undefined) {
+      this.fail("Unexpected end of input");
+    }
+    this.fail(`Unexpected character '${ch}'`);
+  }
+
+  private parseString(): string {
+    const start = this.pos;
+    this.pos++;
+
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (ch === "\\") {
+        this.pos += 2;
+      } else if (ch === '"') {
+        this.pos++;
+        try {
+          return JSON.parse(this.text.slice(start, this.pos));
+        } catch {
+          this.fail("Invalid string", start);
+        }
+      } else if (ch === "\n" || ch === "\r") {
+        this.fail("Unterminated string", start);
+      } else {
+        this.pos++;
+      }
+    }
+
+    this.fail("Unterminated string", start);
+  }
+
+  private parseObject(): ObjectNode {
+    const node: ObjectNode = { type: "object", offset: this.pos, end: 0, properties: [] };
+    this.pos++;
+    this.skipTrivia();
+
+    while (this.text[this.pos] !== "}") {
+      if (this.text[this.pos] !== '"') {
+        this.fail(
+          this.pos >= this.text.length ? "Unexpected end of input" : "Expected property name"
+        );
+      }
+      const offset = this.pos;
+      const key = this.parseString();
+      this.skipTrivia();
+      if (this.text[this.pos] !== ":") {
+        this.fail("Expected ':' after property name");
+      }
+      this.pos++;
+      this.skipTrivia();
+      const value = this.parseValue();
+      node.properties.push({ key, offset, value });
+      this.skipTrivia();
+
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.text[this.pos] !== "}") {
+        this.fail(
+          this.pos >= this.text.length ? "Unexpected end of input" : "Expected ',' or '}'"
+        );
+      }
+    }
+
+    this.pos++;
+    node.end = this.pos;
+    return node;
+  }
+
+  private parseArray(): ArrayNode {
+    const node: ArrayNode = { type: "array", offset: this.pos, end: 0, items: [] };
+    this.pos++;
+    this.skipTrivia();
+
+    while (this.text[this.pos] !== "]") {
+      if (this.pos >= this.text.length) {
+        this.fail("Unexpected end of input");
+      }
+      node.items.push(this.parseValue());
+      this.skipTrivia();
+
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.text[this.pos] !== "]") {
+        this.fail(
+          this.pos >= this.text.length ? "Unexpected end of input" : "Expected ',' or ']'"
+        );
+      }
+    }
+
+    this.pos++;
+    node.end = this.pos;
+    return node;
+  }
+}
+
+function parseTree(text: string): JsoncNode {
+  return new Parser(text).parseDocument();
+}
+
+function toValue(node: JsoncNode): unknown {
+  if (node.type === "value") {
+    return node.value;
+  }
+  if (node.type === "array") {
+    return node.items.map(toValue);
+  }
+  const result: Record<string, unknown> = {};
+  for (const property of node.properties) {
+    Object.defineProperty(result, property.key, {
+      value: toValue(property.value),
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return result;
+}
+
+/**
+ * Parses a JSONC document. Throws `JsoncParseError` with the line and column
+ * of the first syntax error.
+ */
+export function parse(text: string): unknown {
+  return toValue(parseTree(text));
+}
+
+function findChild(node: JsoncNode, segment: string | number): JsoncNode | undefined {
+  if (node.type === "object" && typeof segment === "string") {
+    // Later duplicates win, matching JSON.parse
+    for (let i = node.properties.length - 1; i >= 0; i--) {
+      if (node.properties[i].key === segment) return node.properties[i].value;
+    }
+  }
+  if (node.type === "array" && typeof segment === "number") {
+    return node.items[segment];
+  }
+  return undefined;
+}
+
+function members(node: ObjectNode | ArrayNode): Member[] {
+  return node.type === "object"
+    ? node.properties.map((p) => ({ offset: p.offset, end: p.value.end }))
+    : node.items.map((item) => ({ offset: item.offset, end: item.end }));
+}
+
+function lineStartOf(text: string, offset: number): number {
+  return text.lastIndexOf("\n", offset - 1) + 1;
+}
+
+function indentationAt(text: string, offset: number): string {
+  const start = lineStartOf(text, offset);
+  return /^[ \t]*/.exec(text.slice(start))![0];
+}
+
+function detectIndentUnit(text: string): string {
+  const match = /\n([ \t]+)\S/.exec(text);
+  return match ? match[1] : "  ";
+}
+
+function formatValue(value: unknown, indent: string, unit: string): string {
+  return JSON.stringify(value, null, unit).replace(/\n/g, `\n${indent}`);
+}
+
+/** Skips spaces, tabs and comments that sit on the same line as `offset`. */
+function skipSameLineTrivia(text: string, offset: number): number {
+  let pos = offset;
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (ch === " " || ch === "\t") {
+      pos++;
+    } else if (ch === "/" && text[pos + 1] === "/") {
+      const newline = text.indexOf("\n", pos);
+      return newline === -1 ? text.length : newline;
+    } else if (ch === "/" && text[pos + 1] === "*") {
+      const close = text.indexOf("*/", pos + 2);
+      if (close === -1 || text.slice(pos, close).includes("\n")) return pos;
+      pos = close + 2;
+    } else {
+      break;
+    }
+  }
+  return pos;
+}
+
+/** Returns the offset of the comma following `offset` (skipping trivia), or -1. */
+function findCommaAfter(text: string, offset: number): number {
+  const pos = skipTrivia(text, offset);
+  return text[pos] === "," ? pos : -1;
+}
+
+function splice(text: string, start: number, end: number, insert: string): string {
+  return text.slice(0, start) + insert + text.slice(end);
+}
+
+function insertMember(
+  text: string,
+  container: ObjectNode | ArrayNode,
+  key: string | null,
+  value: unknown
+): string {
+  const unit = detectIndentUnit(text);
+  const existing = members(container);
+  const inner = text.slice(container.offset + 1, container.end - 1);
+  const inline = !inner.includes("\n") && (existing.length > 0 || container.type === "array");
+  const prefix = key === null ? "" : `${JSON.stringify(key)}: `;
+
+  if (inline) {
+    const member = prefix + JSON.stringify(value);
+    if (existing.length === 0) {
+      // Keep a comment like `[ /* none yet */ ]` ahead of the new item
+      const start = container.offset + 1 + inner.trimEnd().length;
+      return splice(text, start, container.end - 1, inner.trim() ? ` ${member}` : member);
+    }
+    const last = existing[existing.length - 1];
+    const comma = findCommaAfter(text, last.end);
+    if (comma !== -1) {
+      return splice(text, comma + 1, comma + 1, ` ${member},`);
+    }
+    return splice(text, last.end, last.end, `, ${member}`);
+  }
+
+  if (existing.length === 0) {
+    const outer = indentationAt(text, container.offset);
+    const indent = outer + unit;
+    const member = prefix + formatValue(value, indent, unit);
+    if (!inner.trim()) {
+      return splice(
+        text,
+        container.offset + 1,
+        container.end - 1,
+        `\n${indent}${member}\n${outer}`
+      );
+    }
+
+    // Comments stay where they are; the member goes on its own line before the bracket
+    const close = container.end - 1;
+    const closeLine = lineStartOf(text, close);
+    if (closeLine > container.offset && !text.slice(closeLine, close).trim()) {
+      return splice(text, closeLine, closeLine, `${indent}${member}\n`);
+    }
+    const start = container.offset + 1 + inner.trimEnd().length;
+    return splice(text, start, close, `\n${indent}${member}\n${outer}`);
+  }
+
+  const last = existing[existing.length - 1];
+  const indent = indentationAt(text, last.offset);
+  const member = prefix + formatValue(value, indent, unit);
+  const comma = findCommaAfter(text, last.end);
+
+  if (comma !== -1) {
+    const lineEnd = skipSameLineTrivia(text, comma + 1);
+    return splice(text, lineEnd, lineEnd, `\n${indent}${member},`);
+  }
+
+  const lineEnd = skipSameLineTrivia(text, last.end);
+  return (
+    text.slice(0, last.end) +
+    "," +
+    text.slice(last.end, lineEnd) +
+    `\n${indent}${member}` +
+    text.slice(lineEnd)
+  );
+}
+
+function removeMember(text: string, container: ObjectNode | ArrayNode, index: number): string {
+  const list = members(container);
+  const member = list[index];
+  const comma = findCommaAfter(text, member.end);
+
+  let start = member.offset;
+  let end = comma !== -1 ? comma + 1 : member.end;
+
+  if (list.length === 1) {
+    const before = text.slice(container.offset + 1, start);
+    const after = text.slice(end, container.end - 1);
+    if ((before + after).trim() === "") {
+      return splice(text, container.offset + 1, container.end - 1, "");
+    }
+  }
+
+  const lineStart = lineStartOf(text, start);
+  const lineEnd = skipSameLineTrivia(text, end);
+  const ownsLine =
+    text.slice(lineStart, start).trim() === "" &&
+    (text[lineEnd] === "\n" || lineEnd === text.length);
+
+  // A last member without a trailing comma leaves its predecessor's comma dangling
+  const previousComma =
+    comma === -1 && index > 0 ? findCommaAfter(text, list[index - 1].end) : -1;
+
+  if (ownsLine) {
+    start = lineStart;
+    end = Math.min(lineEnd + 1, text.length);
+  } else if (previousComma !== -1 && text.slice(previousComma + 1, start).trim() === "") {
+    start = previousComma;
+  } else {
+    while (text[end] === " " || text[end] === "\t") end++;
+  }
+
+  const result = splice(text, start, end, "");
+
+  if (previousComma !== -1 && previousComma < start) {
+    return splice(result, previousComma, previousComma + 1, "");
+  }
+  return result;
+}
+
+function resolveContainer(
+  text: string,
+  path: JsonPath
+): { root: JsoncNode; parent: JsoncNode; missing: JsonPath } {
+  const root = parseTree(text);
+  let node = root;
+  let depth = 0;
+
+  for (; depth < path.length; depth++) {
+    const child = findChild(node, path[depth]);
+    if (!child) break;
+    node = child;
+  }
+
+  return { root, parent: node, missing: path.slice(depth) };
+}
+
+function nest(path: JsonPath, value: unknown): unknown {
+  return path.reduceRight<unknown>(
+    (acc, segment) =>
+      typeof segment === "number" ? [acc] : { [segment]: acc },
+    value
+  );
+}
+
+/**
+ * Sets the value at `path`, creating intermediate objects as needed. Existing
+ * values are replaced in place; new properties are appended after the last
+ * sibling using the surrounding indentation.
+ */
+export function setValue(text: string, path: JsonPath, value: unknown): string {
+  if (path.length === 0) {
+    throw new Error("setValue requires a non-empty path");
+  }
+
+  const { parent, missing } = resolveContainer(text, path);
+
+  if (missing.length === 0) {
+    const indent = indentationAt(text, parent.offset);
+    return splice(text, parent.offset, parent.end, formatValue(value, indent, detectIndentUnit(text)));
+  }
+
+  const [segment, ...rest] = missing;
+
+  if (parent.type === "object" && typeof segment === "string") {
+    return insertMember(text, parent, segment, nest(rest, value));
+  }
+  if (parent.type === "array" && typeof segment === "number" && segment === parent.items.length) {
+    return insertMember(text, parent, null, nest(rest, value));
+  }
+
+  throw new Error(`Cannot set ${JSON.stringify(path)}: parent is not a matching container`);
+}
+
+/** Appends `value` to the array at `path`, creating the array if it does not exist. */
+export function appendArrayItem(text: string, path: JsonPath, value: unknown): string {
+  const { parent, missing } = resolveContainer(text, path);
+
+  if (missing.length > 0) {
+    return setValue(text, path, [value]);
+  }
+  if (parent.type !== "array") {
+    throw new Error(`Cannot append to ${JSON.stringify(path)}: not an array`);
+  }
+
+  return insertMember(text, parent, null, value);
+}
+
+/** Removes the property or array item at `path`. Returns the text unchanged if it does not exist. */
+export function removeValue(text: string, path: JsonPath): string {
+  if (path.length === 0) {
+    throw new Error("removeValue requires a non-empty path");
+  }
+
+  const root = parseTree(text);
+  let container: JsoncNode = root;
+
+  for (const segment of path.slice(0, -1)) {
+    const child = findChild(container, segment);
+    if (!child) return text;
+    container = child;
+  }
+
+  const last = path[path.length - 1];
+
+  if (container.type === "object" && typeof last === "string") {
+    let index = -1;
+    for (let i = container.properties.length - 1; i >= 0; i--) {
+      if (container.properties[i].key === last) {
+        index = i;
+        break;
+      }
+    }
+    return index === -1 ? text : removeMember(text, container, index);
+  }
+
+  if (container.type === "array" && typeof last === "number") {
+    return last < container.items.length ? removeMember(text, container, last) : text;
+  }
+
+  return text;
+}
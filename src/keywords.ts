@@ -1,150 +1,361 @@
 import { config } from "./config.js";
+import { describeTemporal } from "./temporal.js";
+import type { TemporalHint } from "./temporal.js";
+import { resolveRoute } from "./routing.js";
+import type { ResolvedRoute } from "./routing.js";
+import { SEARCH_TOOL_NAME } from "./tools.js";
+import { detectLanguage, getLanguageName, selectPacks } from "./languages.js";
+import { getMcpToolNames } from "./mcp.js";
+import type { LanguageCode, WeightedPattern } from "./languages.js";
+
+export type KeywordCategory =
+  | "search"
+  | "news"
+  | "docs"
+  | "comparison"
+  | "factual"
+  | "reasoning"
+  | "research";
+
+export const KEYWORD_CATEGORIES: KeywordCategory[] = [
+  "search",
+  "news",
+  "docs",
+  "comparison",
+  "factual",
+  "reasoning",
+  "research",
+];
+
+export type KeywordSignal = {
+  name: string;
+  weight: number;
+  /** Only positive signals carry a category */
+  category?: KeywordCategory;
+  text: string;
+};
 
 export type KeywordMatch = {
   type: "search" | "research";
+  category: KeywordCategory;
+  score: number;
   matchedText: string;
+  signals: KeywordSignal[];
+  /** Detected language of the message, when it could be told */
+  language?: LanguageCode | null;
 };
 
-// Patterns that trigger Perplexity web search
-const SEARCH_PATTERNS = [
+export type Classification = {
+  score: number;
+  threshold: number;
+  category: KeywordCategory | null;
+  signals: KeywordSignal[];
+  language: LanguageCode | null;
+};
+
+const DEFAULT_THRESHOLD = 0.5;
+
+// A trailing question mark nudges an already-positive message over the line
+const QUESTION_WEIGHT = 0.2;
+
+// Patterns that suggest a Perplexity web search. Explicit requests carry
+// enough weight to win over any local-code signal; generic question forms
+// like "how do I" only trigger on their own when nothing points at local code.
+const SEARCH_PATTERNS: WeightedPattern[] = [
   // Direct search requests
-  /\bsearch\s+(the\s+)?(web|internet|online)\b/i,
-  /\bweb\s+search\b/i,
-  /\blook\s+up\b/i,
-  /\bfind\s+(me\s+)?(information|info|details)\s+(about|on|for)\b/i,
-  /\bwhat('s|\s+is)\s+(the\s+)?(latest|current|recent)\b/i,
+  { name: "search-the-web", pattern: /\bsearch\s+(the\s+)?(web|internet|online)\b/i, weight: 2, category: "search" },
+  { name: "web-search", pattern: /\bweb\s+search\b/i, weight: 2, category: "search" },
+  { name: "look-up", pattern: /\blook\s+up\b/i, weight: 1, category: "search" },
+  { name: "find-information", pattern: /\bfind\s+(me\s+)?(information|info|details)\s+(about|on|for)\b/i, weight: 1, category: "search" },
 
   // Research-oriented
-  /\bresearch\b/i,
-  /\binvestigate\b/i,
-  /\bfind\s+out\b/i,
+  { name: "research", pattern: /\bresearch\b/i, weight: 0.8, category: "search" },
+  { name: "investigate", pattern: /\binvestigate\b/i, weight: 0.5, category: "search" },
+  { name: "find-out", pattern: /\bfind\s+out\b/i, weight: 0.6, category: "search" },
 
   // News and current events
-  /\b(latest|recent|current)\s+(news|updates|developments)\b/i,
-  /\bwhat('s|\s+is)\s+happening\b/i,
-  /\bbreaking\s+news\b/i,
+  { name: "whats-latest", pattern: /\bwhat('s|\s+is)\s+(the\s+)?(latest|current|recent)\b/i, weight: 1, category: "news" },
+  { name: "recent-news", pattern: /\b(latest|recent|current)\s+(news|updates|developments)\b/i, weight: 1.2, category: "news" },
+  { name: "whats-happening", pattern: /\bwhat('s|\s+is)\s+happening\b/i, weight: 0.8, category: "news" },
+  { name: "breaking-news", pattern: /\bbreaking\s+news\b/i, weight: 1.5, category: "news" },
 
   // Documentation and reference
-  /\bfind\s+(the\s+)?docs?\b/i,
-  /\bdocumentation\s+for\b/i,
-  /\bhow\s+do\s+(I|you|we)\b/i,
-  /\bwhat\s+is\s+the\s+best\s+way\b/i,
+  { name: "find-docs", pattern: /\bfind\s+(the\s+)?docs?\b/i, weight: 1, category: "docs" },
+  { name: "documentation-for", pattern: /\bdocumentation\s+for\b/i, weight: 1, category: "docs" },
+  { name: "how-do-i", pattern: /\bhow\s+do\s+(I|you|we)\b/i, weight: 0.5, category: "docs" },
+  { name: "best-way", pattern: /\bwhat\s+is\s+the\s+best\s+way\b/i, weight: 0.5, category: "docs" },
 
   // Factual queries
-  /\bwho\s+(is|was|are|were)\b/i,
-  /\bwhen\s+(did|was|is|will)\b/i,
-  /\bwhere\s+(is|are|can|do)\b/i,
-  /\bhow\s+(much|many|long|far)\b/i,
+  { name: "who-is", pattern: /\bwho\s+(is|was|are|were)\b/i, weight: 0.6, category: "factual" },
+  { name: "when-did", pattern: /\bwhen\s+(did|was|is|will)\b/i, weight: 0.5, category: "factual" },
+  { name: "where-is", pattern: /\bwhere\s+(is|are|can|do)\b/i, weight: 0.4, category: "factual" },
+  { name: "how-much", pattern: /\bhow\s+(much|many|long|far)\b/i, weight: 0.4, category: "factual" },
 
   // Comparison and alternatives
-  /\bcompare\b/i,
-  /\balternatives?\s+to\b/i,
-  /\bvs\.?\b/i,
-  /\bversus\b/i,
+  { name: "compare", pattern: /\bcompare\b/i, weight: 0.6, category: "comparison" },
+  { name: "alternatives-to", pattern: /\balternatives?\s+to\b/i, weight: 1, category: "comparison" },
+  { name: "vs", pattern: /\bvs\.?(?=\s|$)/i, weight: 0.5, category: "comparison" },
+  { name: "versus", pattern: /\bversus\b/i, weight: 0.5, category: "comparison" },
+
+  // Explanations and reasoning
+  { name: "why-does", pattern: /\bwhy\s+(does|do|is|are|did|would|should)\b/i, weight: 0.5, category: "reasoning" },
+  { name: "explain-why", pattern: /\bexplain\s+(why|how)\b/i, weight: 0.6, category: "reasoning" },
+  { name: "trade-offs", pattern: /\b(pros\s+and\s+cons|trade-?offs?)\b/i, weight: 0.6, category: "reasoning" },
 
   // Perplexity-specific triggers
-  /\bperplexity\b/i,
-  /\bask\s+perplexity\b/i,
-  /\buse\s+perplexity\b/i,
+  { name: "perplexity", pattern: /\b(ask\s+|use\s+)?perplexity\b/i, weight: 2, category: "search" },
 ];
 
 // More specific research patterns (deeper analysis)
-const RESEARCH_PATTERNS = [
-  /\bdeep\s+(dive|research|analysis)\b/i,
-  /\bcomprehensive\s+(search|research|analysis)\b/i,
-  /\bthorough(ly)?\s+(research|investigate|search)\b/i,
-  /\bin[- ]depth\s+(research|analysis)\b/i,
-  /\bdetailed\s+(research|analysis|report)\b/i,
+const RESEARCH_PATTERNS: WeightedPattern[] = [
+  { name: "deep-dive", pattern: /\bdeep\s+(dive|research|analysis)\b/i, weight: 1.5, category: "research" },
+  { name: "comprehensive", pattern: /\bcomprehensive\s+(search|research|analysis)\b/i, weight: 1.5, category: "research" },
+  { name: "thorough", pattern: /\bthorough(ly)?\s+(research|investigate|search)\b/i, weight: 1.5, category: "research" },
+  { name: "in-depth", pattern: /\bin[- ]depth\s+(research|analysis)\b/i, weight: 1.5, category: "research" },
+  { name: "detailed-report", pattern: /\bdetailed\s+(research|analysis|report)\b/i, weight: 1.5, category: "research" },
+];
+
+// Signals that the message is about local code rather than the web
+const LOCAL_CODE_PATTERNS: WeightedPattern[] = [
+  {
+    name: "file-path",
+    pattern: /(?:^|[\s("'])(?:\.{0,2}\/)?[\w@-]+(?:\/[\w.@-]+)*\.(?:tsx?|jsx?|mjs|cjs|py|rs|go|java|kt|rb|php|c|h|cpp|hpp|cs|swift|jsonc?|ya?ml|toml|md|sh|css|scss|html|sql|lock)\b/i,
+    weight: -1,
+  },
+  { name: "camel-case-identifier", pattern: /\b[a-z]+[A-Z][A-Za-z0-9]*\b/, weight: -0.6 },
+  { name: "snake-case-identifier", pattern: /\b[a-z][a-z0-9]*_[a-z0-9_]+\b/, weight: -0.6 },
+  { name: "call-expression", pattern: /\b[A-Za-z_$][\w$]*\(\)/, weight: -0.6 },
+  {
+    name: "local-reference",
+    pattern: /\b(this|our|my)\s+(\w+\s+)?(codebase|code|repo|repository|project|file|function|method|class|module|component|tests?|build|branch|commit|pr|diff|app)\b/i,
+    weight: -0.8,
+  },
+  {
+    name: "local-reference",
+    pattern: /\bthe\s+(codebase|repo|repository|tests?|build|function|file|diff|linter)\b/i,
+    weight: -0.8,
+  },
+  {
+    name: "local-reference",
+    pattern: /\b(these|those)\s+(\w+\s+)?(functions|files|methods|classes|modules|components|tests)\b/i,
+    weight: -0.8,
+  },
+  { name: "code-change", pattern: /\b(refactor|rename|debug|fix)\b/i, weight: -0.4 },
 ];
 
-function removeCodeBlocks(text: string): string {
-  // Remove fenced code blocks
-  let result = text.replace(/```[\s\S]*?```/g, "");
-  // Remove inline code
-  result = result.replace(/`[^`]+`/g, "");
-  return result;
+// Fenced code blocks, then inline code
+export const CODE_PATTERN = /```[\s\S]*?```|`[^`]+`/g;
+
+export function removeCodeBlocks(text: string): string {
+  return text.replace(CODE_PATTERN, "");
 }
 
-function compileCustomPatterns(): RegExp[] {
+let compiledPatterns: { patterns: string[]; compiled: WeightedPattern[] } | null = null;
+
+// Patterns are validated when the config is loaded, so compiling here cannot
+// fail; the result is cached until the config is reloaded.
+function compileCustomPatterns(): WeightedPattern[] {
   const customPatterns = config.keywords?.customPatterns ?? [];
-  return customPatterns
-    .map((pattern) => {
-      try {
-        return new RegExp(pattern, "i");
-      } catch {
-        console.warn(`Invalid custom keyword pattern: ${pattern}`);
-        return null;
-      }
-    })
-    .filter((p): p is RegExp => p !== null);
+  if (compiledPatterns?.patterns !== customPatterns) {
+    compiledPatterns = {
+      patterns: customPatterns,
+      compiled: customPatterns.map((pattern) => ({
+        name: `custom:${pattern}`,
+        pattern: new RegExp(pattern, "i"),
+        weight: 1,
+        category: "search" as const,
+      })),
+    };
+  }
+  return compiledPatterns.compiled;
 }
 
-export function detectKeywords(message: string): KeywordMatch | null {
-  if (!config.keywords?.enabled) {
-    return null;
+function collectSignals(text: string, patterns: WeightedPattern[]): KeywordSignal[] {
+  const signals: KeywordSignal[] = [];
+  const seen = new Set<string>();
+
+  for (const { name, pattern, weight, category } of patterns) {
+    // Each named signal counts once, however many patterns share the name
+    if (seen.has(name)) continue;
+    const match = text.match(pattern);
+    if (match) {
+      seen.add(name);
+      signals.push({ name, weight, category, text: match[0].trim() });
+    }
   }
 
+  return signals;
+}
+
+/**
+ * Scores a message against every signal and picks the category with the most
+ * positive weight. Returns the full breakdown even when the score falls below
+ * the threshold.
+ */
+export function classify(message: string): Classification {
+  const threshold = config.keywords?.threshold ?? DEFAULT_THRESHOLD;
   const cleanedMessage = removeCodeBlocks(message);
-  const customPatterns = compileCustomPatterns();
 
-  // Check research patterns first (more specific)
-  for (const pattern of RESEARCH_PATTERNS) {
-    const match = cleanedMessage.match(pattern);
-    if (match) {
-      return { type: "research", matchedText: match[0] };
-    }
+  const language = detectLanguage(cleanedMessage);
+  const { english, packs } = selectPacks(config.keywords?.languages ?? ["en"], language);
+
+  const positive = collectSignals(cleanedMessage, [
+    ...(english ? RESEARCH_PATTERNS : []),
+    ...packs.flatMap((pack) => pack.research),
+    ...compileCustomPatterns(),
+    ...(english ? SEARCH_PATTERNS : []),
+    ...packs.flatMap((pack) => pack.search),
+  ]);
+  const negative = collectSignals(cleanedMessage, LOCAL_CODE_PATTERNS);
+  const signals = [...positive, ...negative];
+
+  if (positive.length > 0 && /[?？]\s*$/.test(cleanedMessage)) {
+    signals.push({ name: "question", weight: QUESTION_WEIGHT, text: "?" });
   }
 
-  // Check custom patterns
-  for (const pattern of customPatterns) {
-    const match = cleanedMessage.match(pattern);
-    if (match) {
-      return { type: "search", matchedText: match[0] };
-    }
+  const byCategory = new Map<KeywordCategory, number>();
+  for (const signal of positive) {
+    const category = signal.category!;
+    byCategory.set(category, (byCategory.get(category) ?? 0) + signal.weight);
   }
 
-  // Check search patterns
-  for (const pattern of SEARCH_PATTERNS) {
-    const match = cleanedMessage.match(pattern);
-    if (match) {
-      return { type: "search", matchedText: match[0] };
+  let category: KeywordCategory | null = null;
+  for (const [candidate, weight] of byCategory) {
+    if (category === null || weight > byCategory.get(category)!) {
+      category = candidate;
     }
   }
 
-  return null;
+  const score = signals.reduce((sum, signal) => sum + signal.weight, 0);
+
+  return {
+    score: Math.round(score * 100) / 100,
+    threshold,
+    category,
+    signals,
+    language,
+  };
 }
 
-export function getSearchNudge(): string {
-  return `<perplexity-hint>
-The user's message suggests they want to search the web for information.
+export function detectKeywords(message: string): KeywordMatch | null {
+  if (!config.keywords?.enabled) {
+    return null;
+  }
+
+  const { score, threshold, category, signals, language } = classify(message);
+
+  if (category === null || score < threshold) {
+    return null;
+  }
+
+  const strongest = signals
+    .filter((s) => s.category === category)
+    .reduce((best, s) => (s.weight > best.weight ? s : best));
+
+  return {
+    type: category === "research" ? "research" : "search",
+    category,
+    score,
+    matchedText: strongest.text,
+    signals,
+    language,
+  };
+}
 
-You have access to the Perplexity MCP server with the following tool:
-- **perplexity_search_web**: Search the web using Perplexity AI
+function getTimeFrameAdvice(temporal: TemporalHint | null | undefined): string {
+  if (temporal) {
+    return describeTemporal(temporal);
+  }
+  return `Example usage:
+- For recent news: use recency="day" or recency="week"
+- For general information: use recency="month" (default)
+- For historical context: use recency="year"`;
+}
+
+function describeTool(route: ResolvedRoute): string {
+  if (route.tool !== SEARCH_TOOL_NAME) {
+    return `- **${route.tool}**: Search the web using Perplexity AI`;
+  }
+  return `- **${route.tool}**: Search the web using Perplexity AI
   - Parameters:
     - query (required): The search query
     - recency (optional): Filter by "day", "week", "month", or "year"
+    - after / before (optional): Restrict results to a date range (YYYY-MM-DD)
+    - model (optional): The Perplexity model to use`;
+}
+
+// Listed by `install` from the configured MCP server
+function describeMcpTools(route: ResolvedRoute): string {
+  const tools = getMcpToolNames().filter((name) => name !== route.tool);
+  return tools.length > 0
+    ? `\nThe perplexity MCP server also provides: ${tools.join(", ")}.`
+    : "";
+}
+
+// Only with `nudges.matchLanguage`; English needs no extra line
+function getLanguageAdvice(language: LanguageCode | null | undefined): string {
+  if (!config.nudges?.matchLanguage || !language || language === "en") {
+    return "";
+  }
+  const name = getLanguageName(language);
+  return `\nThe user wrote in ${name}: write your search queries in ${name} and answer in ${name}.`;
+}
+
+function describeRouting(route: ResolvedRoute): string {
+  return route.tool === SEARCH_TOOL_NAME
+    ? `For this request, call ${route.tool} with model="${route.model}".`
+    : `For this request, call ${route.tool}.`;
+}
+
+export function getSearchNudge(
+  temporal?: TemporalHint | null,
+  route: ResolvedRoute = resolveRoute("search"),
+  language?: LanguageCode | null
+): string {
+  return `<perplexity-hint>
+The user's message suggests they want to search the web for information.
+
+You have access to the following tool:
+${describeTool(route)}${describeMcpTools(route)}
 
 Use this tool to find current, accurate information from the web. Perplexity provides AI-powered search with citations.
+${describeRouting(route)}${getLanguageAdvice(language)}
 
-Example usage:
-- For recent news: use recency="day" or recency="week"
-- For general information: use recency="month" (default)
-- For historical context: use recency="year"
+${getTimeFrameAdvice(temporal)}
 </perplexity-hint>`;
 }
 
-export function getResearchNudge(): string {
+export function getResearchNudge(
+  temporal?: TemporalHint | null,
+  route: ResolvedRoute = resolveRoute("research"),
+  language?: LanguageCode | null
+): string {
+  const timeFrame = temporal ? `\n${describeTemporal(temporal)}\n` : "";
   return `<perplexity-hint>
 The user wants comprehensive research on a topic.
 
-You have access to the Perplexity MCP server with the **perplexity_search_web** tool.
+You have access to the **${route.tool}** tool.${describeMcpTools(route)}
+${describeRouting(route)}${getLanguageAdvice(language)}
 
 For in-depth research:
 1. Break the topic into multiple focused queries
 2. Use different recency filters to get both recent and historical context
 3. Cross-reference information from multiple searches
 4. Synthesize findings into a comprehensive response with citations
-
+${timeFrame}
 The Perplexity API returns results with citations - always include these in your response to support your findings.
 </perplexity-hint>`;
 }
+
+export function getReminderNudge(
+  type: KeywordMatch["type"],
+  route: ResolvedRoute = resolveRoute(type)
+): string {
+  const action =
+    type === "research"
+      ? `run several focused ${route.tool} queries`
+      : `use ${route.tool}`;
+  return `<perplexity-hint>
+Reminder: this looks like another web lookup - ${action} as described in the earlier hint, and cite the sources.
+</perplexity-hint>`;
+}
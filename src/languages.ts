@@ -0,0 +1,268 @@
+import type { KeywordCategory } from "./keywords.js";
+
+export type LanguageCode = "en" | "es" | "de" | "fr" | "ja" | "zh";
+
+export type WeightedPattern = {
+  name: string;
+  pattern: RegExp;
+  weight: number;
+  category?: KeywordCategory;
+};
+
+export interface LanguagePack {
+  search: WeightedPattern[];
+  research: WeightedPattern[];
+}
+
+/**
+ * Whole-word match for alphabetic scripts. `\b` only knows ASCII letters, so
+ * "qué" or "für" need Unicode-aware boundaries instead.
+ */
+function word(source: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`, "iu");
+}
+
+// Japanese and Chinese don't separate words with spaces, so their patterns
+// match anywhere in the text.
+function cjk(source: string): RegExp {
+  return new RegExp(source, "u");
+}
+
+function pack(
+  code: Exclude<LanguageCode, "en">,
+  toRegExp: (source: string) => RegExp,
+  search: Array<[name: string, source: string, weight: number, category: KeywordCategory]>,
+  research: Array<[name: string, source: string]>
+): LanguagePack {
+  return {
+    search: search.map(([signal, source, weight, category]) => ({
+      name: `${code}:${signal}`,
+      pattern: toRegExp(source),
+      weight,
+      category,
+    })),
+    research: research.map(([signal, source]) => ({
+      name: `${code}:${signal}`,
+      pattern: toRegExp(source),
+      weight: 1.5,
+      category: "research",
+    })),
+  };
+}
+
+// Weights mirror the English patterns in keywords.ts: explicit requests
+// score 2, topic phrases around 1, generic question words below the threshold.
+export const LANGUAGE_PACKS: Record<Exclude<LanguageCode, "en">, LanguagePack> = {
+  es: pack(
+    "es",
+    word,
+    [
+      ["search-the-web", "busca(r|me)?\\s+en\\s+(la\\s+)?(web|internet|red)", 2, "search"],
+      ["web-search", "búsqueda\\s+(web|en\\s+internet)", 2, "search"],
+      ["research", "investiga(r)?", 0.8, "search"],
+      ["find-out", "averigua(r)?", 0.6, "search"],
+      ["recent-news", "(últimas|recientes)\\s+noticias|noticias\\s+(recientes|de\\s+hoy)", 1.2, "news"],
+      ["whats-new", "qué\\s+hay\\s+de\\s+nuevo", 1, "news"],
+      ["documentation-for", "documentación\\s+(de|para|sobre)", 1, "docs"],
+      ["how-do-i", "cómo\\s+(puedo|se|hago)", 0.5, "docs"],
+      ["who-is", "quién\\s+(es|fue|era)", 0.6, "factual"],
+      ["when-did", "cuándo\\s+(fue|es|se)", 0.5, "factual"],
+      ["how-much", "cuánto(s)?|cuánta(s)?", 0.4, "factual"],
+      ["compare", "compara(r)?", 0.6, "comparison"],
+      ["alternatives-to", "alternativas?\\s+a", 1, "comparison"],
+      ["why", "por\\s+qué", 0.5, "reasoning"],
+    ],
+    [
+      ["deep-dive", "investigación\\s+(a\\s+fondo|exhaustiva|detallada)"],
+      ["in-depth", "análisis\\s+(a\\s+fondo|exhaustivo|detallado)"],
+      ["detailed-report", "informe\\s+detallado"],
+    ]
+  ),
+  de: pack(
+    "de",
+    word,
+    [
+      ["search-the-web", "such(e|en)?\\s+(im|in\\s+dem)\\s+(web|internet|netz)", 2, "search"],
+      ["web-search", "websuche|internetsuche", 2, "search"],
+      ["research", "recherchier(e|en|t)?", 0.8, "search"],
+      ["find-out", "finde?\\s+heraus", 0.6, "search"],
+      ["recent-news", "(neueste|aktuelle)n?\\s+(nachrichten|neuigkeiten|entwicklungen)", 1.2, "news"],
+      ["whats-new", "was\\s+(gibt\\s+)?es\\s+neues", 1, "news"],
+      ["documentation-for", "dokumentation\\s+(zu|für|von)", 1, "docs"],
+      ["how-do-i", "wie\\s+(kann|mache)\\s+ich", 0.5, "docs"],
+      ["who-is", "wer\\s+(ist|war|sind)", 0.6, "factual"],
+      ["when-did", "wann\\s+(wurde|ist|war|wird)", 0.5, "factual"],
+      ["how-much", "wie\\s+viele?", 0.4, "factual"],
+      ["compare", "vergleich(e|en)?", 0.6, "comparison"],
+      ["alternatives-to", "alternativen?\\s+zu", 1, "comparison"],
+      ["why", "warum|wieso", 0.5, "reasoning"],
+    ],
+    [
+      ["deep-dive", "(ausführliche|gründliche|tiefgehende)\\s+(recherche|analyse|untersuchung)"],
+      ["thorough", "gründlich\\s+(recherchieren|untersuchen)"],
+      ["detailed-report", "detaillierte[nr]?\\s+(bericht|analyse)"],
+    ]
+  ),
+  fr: pack(
+    "fr",
+    word,
+    [
+      ["search-the-web", "cherche(r|z)?\\s+(sur\\s+)?(le\\s+web|internet)", 2, "search"],
+      ["web-search", "recherche\\s+(web|sur\\s+internet)", 2, "search"],
+      ["find-out", "découvr(ir|e)", 0.6, "search"],
+      ["recent-news", "dernières\\s+(nouvelles|actualités)|actualités\\s+récentes", 1.2, "news"],
+      ["whats-new", "quoi\\s+de\\s+neuf", 1, "news"],
+      ["documentation-for", "documentation\\s+(de|pour|sur)", 1, "docs"],
+      ["how-do-i", "comment\\s+(faire|puis-je|on)", 0.5, "docs"],
+      ["who-is", "qui\\s+(est|était|sont)", 0.6, "factual"],
+      ["when-did", "quand\\s+(a|est|était)", 0.5, "factual"],
+      ["how-much", "combien", 0.4, "factual"],
+      ["compare", "compare(r|z)?", 0.6, "comparison"],
+      ["alternatives-to", "alternatives?\\s+(à|a)", 1, "comparison"],
+      ["why", "pourquoi", 0.5, "reasoning"],
+    ],
+    [
+      ["deep-dive", "recherche\\s+approfondie"],
+      ["in-depth", "analyse\\s+(approfondie|détaillée)"],
+      ["detailed-report", "rapport\\s+détaillé"],
+    ]
+  ),
+  ja: pack(
+    "ja",
+    cjk,
+    [
+      ["search-the-web", "(ウェブ|ネット|インターネット)で(検索|調べ)", 2, "search"],
+      ["search", "検索して", 1, "search"],
+      ["look-up", "調べて", 1, "search"],
+      ["recent-news", "最新の?(情報|ニュース|動向)", 1.2, "news"],
+      ["news", "ニュース", 0.8, "news"],
+      ["documentation", "(公式)?ドキュメント", 0.8, "docs"],
+      ["how-do-i", "どうやって|方法", 0.5, "docs"],
+      ["what-is", "とは(何|なに)", 0.6, "factual"],
+      ["who-is", "誰", 0.5, "factual"],
+      ["when", "いつ", 0.4, "factual"],
+      ["compare", "比較", 0.6, "comparison"],
+      ["alternatives-to", "代替|代わり", 0.8, "comparison"],
+      ["why", "なぜ|どうして", 0.5, "reasoning"],
+    ],
+    [
+      ["deep-dive", "深掘り|詳しく調べ"],
+      ["thorough", "徹底的に(調査|調べ)"],
+      ["detailed-report", "詳細な(調査|分析|レポート)"],
+    ]
+  ),
+  zh: pack(
+    "zh",
+    cjk,
+    [
+      ["search-the-web", "(在网上|上网|网上)(搜索|查)", 2, "search"],
+      ["search", "搜索一下|搜一下", 1, "search"],
+      ["look-up", "查一下", 1, "search"],
+      ["recent-news", "最新的?(消息|新闻|信息|动态)", 1.2, "news"],
+      ["documentation", "文档", 0.8, "docs"],
+      ["how-do-i", "怎么|如何", 0.5, "docs"],
+      ["who-is", "是谁", 0.6, "factual"],
+      ["when", "什么时候", 0.5, "factual"],
+      ["how-much", "多少", 0.4, "factual"],
+      ["compare", "比较|对比", 0.6, "comparison"],
+      ["alternatives-to", "替代", 0.8, "comparison"],
+      ["why", "为什么", 0.5, "reasoning"],
+    ],
+    [
+      ["deep-dive", "深入(研究|分析|调研)"],
+      ["detailed-report", "详细的?(报告|分析)"],
+      ["thorough", "全面的?(研究|调研|分析)"],
+    ]
+  ),
+};
+
+export const LANGUAGE_CODES: LanguageCode[] = ["en", "es", "de", "fr", "ja", "zh"];
+
+const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: "English",
+  es: "Spanish",
+  de: "German",
+  fr: "French",
+  ja: "Japanese",
+  zh: "Chinese",
+};
+
+// Frequent short words that are distinctive enough to tell Latin-script languages apart
+const STOPWORDS: Record<"en" | "es" | "de" | "fr", string[]> = {
+  en: ["the", "is", "are", "and", "of", "to", "what", "how", "for", "with", "about", "on"],
+  es: ["el", "la", "los", "las", "que", "en", "y", "es", "por", "para", "una", "del", "cómo", "qué", "sobre"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "ich", "wie", "was", "mit", "für", "ein", "eine", "über", "zu"],
+  fr: ["le", "la", "les", "des", "est", "et", "que", "pour", "une", "comment", "quel", "dans", "sur", "du"],
+};
+
+const SPECIAL_LETTERS: Array<[RegExp, "es" | "de" | "fr"]> = [
+  [/[ñ¿¡]/i, "es"],
+  [/[ßäöü]/i, "de"],
+  [/[çèêëàâîôœ]/i, "fr"],
+];
+
+export function getLanguageName(code: LanguageCode): string {
+  return LANGUAGE_NAMES[code];
+}
+
+/**
+ * Guesses a message's language: Japanese and Chinese by script (kana means
+ * Japanese), Latin-script languages by common words and special letters.
+ * Returns null when there isn't enough to go on.
+ */
+export function detectLanguage(text: string): LanguageCode | null {
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) {
+    return "ja";
+  }
+  if (/\p{Script=Han}/u.test(text)) {
+    return "zh";
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = new Map<LanguageCode, number>();
+
+  for (const [code, stopwords] of Object.entries(STOPWORDS) as Array<[LanguageCode, string[]]>) {
+    scores.set(code, words.filter((w) => stopwords.includes(w)).length);
+  }
+  for (const [pattern, code] of SPECIAL_LETTERS) {
+    if (pattern.test(text)) {
+      scores.set(code, (scores.get(code) ?? 0) + 1);
+    }
+  }
+
+  // One hit is enough for a short message, as long as no other language ties it
+  let best: LanguageCode | null = null;
+  let bestScore = 0;
+  for (const [code, score] of scores) {
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    } else if (score === bestScore) {
+      best = null;
+    }
+  }
+  return best;
+}
+
+/**
+ * The packs to match a message against, from `keywords.languages`. "auto"
+ * adds the pack for the message's detected language, and keeps English on
+ * since short messages often can't be detected.
+ */
+export function selectPacks(
+  languages: string[],
+  detected: LanguageCode | null
+): { english: boolean; packs: LanguagePack[] } {
+  const codes = new Set(languages);
+  if (codes.has("auto")) {
+    codes.add("en");
+    if (detected) codes.add(detected);
+  }
+
+  return {
+    english: codes.has("en"),
+    packs: [...codes]
+      .filter((code): code is Exclude<LanguageCode, "en"> => code in LANGUAGE_PACKS)
+      .map((code) => LANGUAGE_PACKS[code]),
+  };
+}
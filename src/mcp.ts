@@ -0,0 +1,73 @@
+import { config } from "./config.js";
+
+export type McpTransport = "local" | "remote";
+
+export type McpTarget =
+  | { transport: "local"; command: string[] }
+  | { transport: "remote"; url: string };
+
+/** The key of the server in opencode.json's `mcp` block; OpenCode prefixes its tools with it. */
+export const MCP_SERVER_NAME = "perplexity";
+
+export const DEFAULT_MCP_COMMAND = ["uv", "tool", "run", "perplexity-mcp"];
+
+/** Splits a command line on whitespace, keeping quoted arguments together. */
+export function splitCommand(commandLine: string): string[] {
+  const args: string[] = [];
+  for (const match of commandLine.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return args;
+}
+
+function quote(arg: string): string {
+  return /[\s"']/.test(arg) ? `"${arg}"` : arg;
+}
+
+/**
+ * Reads `mcpUrl`: `stdio://<command>` launches a local server, an http(s)
+ * URL points at a remote one. Returns null for anything else.
+ */
+export function parseMcpUrl(mcpUrl: string): McpTarget | null {
+  if (mcpUrl.startsWith("stdio://")) {
+    const command = splitCommand(mcpUrl.slice("stdio://".length));
+    return command.length > 0 ? { transport: "local", command } : null;
+  }
+  if (/^https?:\/\/[^\s]+$/.test(mcpUrl)) {
+    return { transport: "remote", url: mcpUrl };
+  }
+  return null;
+}
+
+export function formatMcpUrl(target: McpTarget): string {
+  return target.transport === "local"
+    ? `stdio://${target.command.map(quote).join(" ")}`
+    : target.url;
+}
+
+/** The server's entry in opencode.json, passing the key (or a reference to it) the way each transport expects. */
+export function buildMcpServerEntry(target: McpTarget, keyReference: string): Record<string, unknown> {
+  if (target.transport === "remote") {
+    return {
+      type: "remote",
+      url: target.url,
+      headers: {
+        Authorization: `Bearer ${keyReference}`,
+      },
+    };
+  }
+  return {
+    type: "local",
+    command: target.command,
+    environment: {
+      PERPLEXITY_API_KEY: keyReference,
+    },
+  };
+}
+
+/** Tool names as the agent sees them: OpenCode prefixes MCP tools with the server name. */
+export function getMcpToolNames(): string[] {
+  return (config.mcpTools ?? []).map(
+    (name) => `${MCP_SERVER_NAME}_${name}`.replace(/[^a-zA-Z0-9_-]/g, "_")
+  );
+}
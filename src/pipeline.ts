@@ -0,0 +1,108 @@
+import { getBudgetNudge, getHintBudget } from "./budget.js";
+import type { HintBudget } from "./budget.js";
+import type { Directive } from "./directives.js";
+import { toKeywordMatch } from "./directives.js";
+import { detectKeywords } from "./keywords.js";
+import type { KeywordMatch } from "./keywords.js";
+import { resolveRoute } from "./routing.js";
+import type { ResolvedRoute } from "./routing.js";
+import {
+  decideNudge,
+  isSessionSuppressed,
+  recordMessage,
+  recordNudge,
+  setSessionSuppressed,
+} from "./session.js";
+import type { NudgeLevel } from "./session.js";
+import { getNudge } from "./templates.js";
+import { parseTemporal } from "./temporal.js";
+import type { TemporalHint } from "./temporal.js";
+
+export type Evaluation =
+  | { outcome: "suppressed"; reason: "directive" | "session" }
+  | { outcome: "no-match" }
+  | { outcome: "cooldown"; match: KeywordMatch; forced: boolean }
+  | {
+      outcome: "nudge";
+      match: KeywordMatch;
+      forced: boolean;
+      level: Exclude<NudgeLevel, "none">;
+      temporal: TemporalHint | null;
+      route: ResolvedRoute;
+      /** "downgraded": a research hint became a search hint; "exhausted": the hint says not to search */
+      budget: HintBudget;
+      text: string;
+    };
+
+export interface EvaluateOptions {
+  /** Leave out the daily and session budget, which depends on earlier calls */
+  ignoreBudget?: boolean;
+}
+
+/** `!noweb session` and `!web session` change the session before anything else. */
+export function applySessionDirectives(sessionID: string, directives: Directive[]): void {
+  for (const directive of directives) {
+    if (directive.scope === "session") {
+      setSessionSuppressed(sessionID, directive.action === "suppress");
+    }
+  }
+}
+
+/**
+ * Decides the hint for a user message with its directives already removed,
+ * and updates the session's cooldown. Shared by the `chat.message` hook and
+ * the `detect` command so both give the same answer.
+ */
+export function evaluateMessage(
+  sessionID: string,
+  message: string,
+  directives: Directive[],
+  options: EvaluateOptions = {}
+): Evaluation {
+  recordMessage(sessionID);
+
+  const forced =
+    directives.find((d) => d.action === "research") ??
+    directives.find((d) => d.action === "search");
+
+  if (directives.some((d) => d.action === "suppress" && d.scope === "message")) {
+    return { outcome: "suppressed", reason: "directive" };
+  }
+
+  if (!forced && isSessionSuppressed(sessionID)) {
+    return { outcome: "suppressed", reason: "session" };
+  }
+
+  const detected = forced ? toKeywordMatch(forced) : detectKeywords(message);
+  if (!detected) {
+    return { outcome: "no-match" };
+  }
+
+  // Research hints ask for several searches, more than a nearly spent budget allows
+  let budget: HintBudget = options.ignoreBudget
+    ? "ok"
+    : getHintBudget(sessionID, resolveRoute("research", forced?.route).model);
+  let match = detected;
+  if (budget === "downgraded" && detected.type !== "research") {
+    budget = "ok";
+  } else if (budget !== "ok" && detected.type === "research") {
+    match = {
+      ...detected,
+      type: "search",
+      category: detected.category === "research" ? "search" : detected.category,
+    };
+  }
+
+  // An explicit directive always gets the full hint
+  const level = forced ? "full" : decideNudge(sessionID, match.type);
+  if (level === "none") {
+    return { outcome: "cooldown", match, forced: !!forced };
+  }
+
+  const temporal = parseTemporal(message);
+  const route = resolveRoute(match.category, forced?.route);
+  const text = budget === "exhausted" ? getBudgetNudge() : getNudge(level, match, temporal, route);
+  recordNudge(sessionID, match.type, level);
+
+  return { outcome: "nudge", match, forced: !!forced, level, temporal, route, budget, text };
+}
@@ -0,0 +1,49 @@
+import { config } from "./config.js";
+import { KEYWORD_CATEGORIES } from "./keywords.js";
+import type { KeywordCategory } from "./keywords.js";
+import { SEARCH_TOOL_NAME } from "./tools.js";
+
+export interface ResolvedRoute {
+  tool: string;
+  model: string;
+  /** The routing entry that was used, or "model" for a model named directly */
+  source: KeywordCategory | "default" | "model";
+}
+
+export function isKeywordCategory(value: string): value is KeywordCategory {
+  return (KEYWORD_CATEGORIES as string[]).includes(value);
+}
+
+/**
+ * Looks up the tool and model for a category in `routing`. An override from
+ * a directive names either another category's route or a model to use with
+ * the default tool.
+ */
+export function resolveRoute(category: KeywordCategory, override?: string): ResolvedRoute {
+  const defaultModel = config.model || "sonar";
+
+  let key = category;
+  if (override) {
+    const normalized = override.toLowerCase();
+    if (!isKeywordCategory(normalized)) {
+      return { tool: SEARCH_TOOL_NAME, model: override, source: "model" };
+    }
+    key = normalized;
+  }
+
+  const route = config.routing?.[key];
+
+  return {
+    tool: route?.tool || SEARCH_TOOL_NAME,
+    model: route?.model || defaultModel,
+    source: route ? key : "default",
+  };
+}
+
+/** The built-in tool, any routed tool, and MCP tools with "perplexity" in their name. */
+export function isPerplexityTool(tool: string): boolean {
+  if (tool === SEARCH_TOOL_NAME || /perplexity/i.test(tool)) {
+    return true;
+  }
+  return Object.values(config.routing ?? {}).some((route) => route?.tool === tool);
+}
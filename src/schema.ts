@@ -0,0 +1,555 @@
+/**
+ * Schema for perplexity.json. The definition below is plain JSON Schema
+ * (draft-07 subset), so it doubles as the published schema for editor
+ * autocompletion and as the source for load-time validation.
+ */
+
+export type SchemaNode =
+  | {
+      type: "object";
+      description?: string;
+      properties: Record<string, SchemaNode>;
+      additionalProperties?: false | SchemaNode;
+    }
+  | { type: "array"; description?: string; items: SchemaNode }
+  | { type: "string"; description?: string; format?: "regex"; enum?: string[] }
+  | { type: "boolean"; description?: string }
+  | { type: "integer" | "number"; description?: string; minimum?: number };
+
+export interface ValidationIssue {
+  /** Dotted key path, e.g. `keywords.customPatterns[2]` */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  /** The input with every invalid value removed */
+  value: T;
+  issues: ValidationIssue[];
+}
+
+export const SCHEMA_URL =
+  "https://unpkg.com/perplexity-opencode@latest/dist/perplexity.schema.json";
+
+function routeSchema(description: string): SchemaNode {
+  return {
+    type: "object",
+    description,
+    additionalProperties: false,
+    properties: {
+      tool: {
+        type: "string",
+        description: "Tool the hint tells the agent to call (default perplexity_search)",
+      },
+      model: {
+        type: "string",
+        description: 'Model the agent passes to the tool (default "model")',
+      },
+    },
+  };
+}
+
+export const CONFIG_SCHEMA: SchemaNode = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    $schema: {
+      type: "string",
+      description: "JSON Schema reference for editor support",
+    },
+    configVersion: {
+      type: "integer",
+      minimum: 0,
+      description: "Format version of this file. Written by install; `perplexity-opencode upgrade` migrates older files",
+    },
+    apiKey: {
+      type: "string",
+      description:
+        "Perplexity API key (pplx-...) or an {env:VAR} reference. Falls back to PERPLEXITY_API_KEY.",
+    },
+    apiKeyFile: {
+      type: "string",
+      description:
+        "File holding the API key, relative to this config file or starting with ~/. Global config only.",
+    },
+    apiKeyCommand: {
+      type: "string",
+      description: 'Command that prints the API key, e.g. "pass show perplexity". Global config only.',
+    },
+    mcpUrl: {
+      type: "string",
+      description:
+        'Where the perplexity MCP server runs: "stdio://<command>" for a local server or an http(s) URL for a remote one. Written by install when --mcp-command or --mcp-url is passed',
+    },
+    mcpTools: {
+      type: "array",
+      description:
+        "Tools the MCP server provides, without OpenCode's perplexity_ prefix. Written by install; hints mention them",
+      items: { type: "string" },
+    },
+    model: {
+      type: "string",
+      description: 'Default Perplexity model used by perplexity_search (default "sonar")',
+    },
+    baseUrl: {
+      type: "string",
+      description: "Perplexity API base URL (default https://api.perplexity.ai)",
+    },
+    keywords: {
+      type: "object",
+      description: "Keyword detection that nudges the agent to search",
+      additionalProperties: false,
+      properties: {
+        enabled: {
+          type: "boolean",
+          description: "Inject search hints when a message matches (default true)",
+        },
+        customPatterns: {
+          type: "array",
+          description: "Extra case-insensitive regular expressions that trigger a search hint",
+          items: { type: "string", format: "regex" },
+        },
+        threshold: {
+          type: "number",
+          description:
+            "Minimum confidence score for a hint (default 0.5). Explicit requests score 2, generic questions about 0.5, local code references subtract",
+        },
+        languages: {
+          type: "array",
+          description:
+            'Language packs to match (default ["en"]). "auto" adds the pack for the language each message is written in',
+          items: { type: "string", enum: ["auto", "en", "es", "de", "fr", "ja", "zh"] },
+        },
+      },
+    },
+    nudges: {
+      type: "object",
+      description: "How often the full hint is repeated within a session",
+      additionalProperties: false,
+      properties: {
+        cooldownMessages: {
+          type: "integer",
+          minimum: 0,
+          description:
+            "User messages after a full hint before it is shown again (default 10, 0 disables)",
+        },
+        cooldownMinutes: {
+          type: "number",
+          minimum: 0,
+          description: "Minutes after a full hint before it is shown again (default 0, disabled)",
+        },
+        repeat: {
+          type: "string",
+          enum: ["reminder", "none"],
+          description: 'What to inject for matches during the cooldown (default "reminder")',
+        },
+        matchLanguage: {
+          type: "boolean",
+          description:
+            "Ask the agent to write its search queries in the language of a non-English message (default false)",
+        },
+      },
+    },
+    directives: {
+      type: "object",
+      description: "Inline directives such as !web, !research and !noweb in chat messages",
+      additionalProperties: false,
+      properties: {
+        enabled: {
+          type: "boolean",
+          description: "Recognize and strip directives (default true)",
+        },
+        prefix: {
+          type: "string",
+          description: 'Prefix for directives (default "!", e.g. "!web")',
+        },
+      },
+    },
+    logging: {
+      type: "object",
+      description: "Plugin logging. Records are JSON lines with a timestamp, level and event name",
+      additionalProperties: false,
+      properties: {
+        level: {
+          type: "string",
+          enum: ["trace", "debug", "info", "warn", "error"],
+          description: 'Minimum level to log (default "warn"). Falls back to PERPLEXITY_LOG_LEVEL',
+        },
+        file: {
+          type: "boolean",
+          description:
+            "Write records to ~/.config/opencode/log/perplexity-opencode.log; when false, they are dropped (default true)",
+        },
+        maxSizeKb: {
+          type: "integer",
+          minimum: 1,
+          description: "Rotate the log file once it reaches this size (default 1024)",
+        },
+        maxFiles: {
+          type: "integer",
+          minimum: 1,
+          description: "Rotated log files to keep (default 3)",
+        },
+        logContent: {
+          type: "boolean",
+          description: "Include message text such as matched phrases in log records (default false)",
+        },
+      },
+    },
+    cache: {
+      type: "object",
+      description: "On-disk cache of perplexity_search results, keyed by normalized query, filters and model",
+      additionalProperties: false,
+      properties: {
+        enabled: {
+          type: "boolean",
+          description: "Reuse recent results for repeated searches (default true)",
+        },
+        ttlMinutes: {
+          type: "object",
+          description: "Minutes a result stays fresh, by recency filter. Searches without one use \"month\"",
+          additionalProperties: false,
+          properties: {
+            day: { type: "number", minimum: 0, description: "Default 60" },
+            week: { type: "number", minimum: 0, description: "Default 360" },
+            month: { type: "number", minimum: 0, description: "Default 1440" },
+            year: { type: "number", minimum: 0, description: "Default 10080" },
+          },
+        },
+        maxSizeKb: {
+          type: "integer",
+          minimum: 1,
+          description: "Evict the least recently used results above this size (default 5120)",
+        },
+      },
+    },
+    citations: {
+      type: "object",
+      description: "Rewriting of Perplexity tool output into a numbered, deduplicated source list",
+      additionalProperties: false,
+      properties: {
+        enabled: {
+          type: "boolean",
+          description: "Normalize inline markers to [n] and append a Sources list with titles and domains (default true)",
+        },
+        flagUnsourced: {
+          type: "boolean",
+          description: "Add a note to answers that came back without any source (default true)",
+        },
+      },
+    },
+    analytics: {
+      type: "object",
+      description:
+        "Local record of detections, hints and tool calls, reported by `perplexity-opencode stats`. Nothing leaves your machine",
+      additionalProperties: false,
+      properties: {
+        enabled: {
+          type: "boolean",
+          description: "Record events in ~/.config/opencode/perplexity-stats.jsonl (default true)",
+        },
+        retentionDays: {
+          type: "integer",
+          minimum: 1,
+          description: "Days of events to keep (default 90)",
+        },
+      },
+    },
+    guard: {
+      type: "object",
+      description:
+        "Checks on the query of every Perplexity tool call before it is sent, for secrets, internal hosts and denied text",
+      additionalProperties: false,
+      properties: {
+        enabled: {
+          type: "boolean",
+          description: "Check queries before they are sent (default true)",
+        },
+        action: {
+          type: "string",
+          enum: ["redact", "block", "warn"],
+          description:
+            'What to do with a query that contains a finding: replace the finding with a placeholder, fail the tool call with an explanation, or only log it (default "redact")',
+        },
+        secrets: {
+          type: "boolean",
+          description: "Detect API keys, access tokens, JWTs and private keys (default true)",
+        },
+        internalDomains: {
+          type: "array",
+          description: 'Domains whose hosts must not appear in queries, including subdomains, e.g. "corp.example.com"',
+          items: { type: "string" },
+        },
+        denyPatterns: {
+          type: "array",
+          description: "Case-insensitive regular expressions for anything else that must not be sent, e.g. customer names",
+          items: { type: "string", format: "regex" },
+        },
+      },
+    },
+    budget: {
+      type: "object",
+      description:
+        "Limits on Perplexity tool calls. Calls are counted in ~/.config/opencode/perplexity-budget.json and shown by `perplexity-opencode budget`",
+      additionalProperties: false,
+      properties: {
+        enabled: {
+          type: "boolean",
+          description: "Count calls and refuse those over a limit (default true)",
+        },
+        sessionCalls: {
+          type: "integer",
+          minimum: 0,
+          description: "Perplexity tool calls allowed per OpenCode session, 0 for no limit (default 0)",
+        },
+        dailyCalls: {
+          type: "integer",
+          minimum: 0,
+          description: "Perplexity tool calls allowed per day across all sessions, 0 for no limit (default 0)",
+        },
+        dailyCost: {
+          type: "number",
+          minimum: 0,
+          description: "Estimated US dollars allowed per day, priced with modelCosts, 0 for no limit (default 0)",
+        },
+        modelCosts: {
+          type: "object",
+          description:
+            'Estimated US dollars per call, by model. Merged with the built-in estimates; unknown models cost as much as "model"',
+          properties: {},
+          additionalProperties: { type: "number", minimum: 0 },
+        },
+      },
+    },
+    routing: {
+      type: "object",
+      description:
+        "Tool and model the hint points the agent at, per detected category. Categories without a route use \"model\"",
+      additionalProperties: false,
+      properties: {
+        search: routeSchema("General web searches"),
+        news: routeSchema("News and current events"),
+        docs: routeSchema("Documentation lookups"),
+        comparison: routeSchema('Comparisons and alternatives (default model "sonar-pro")'),
+        factual: routeSchema("Quick factual lookups"),
+        reasoning: routeSchema('"Why" and "explain" questions (default model "sonar-reasoning-pro")'),
+        research: routeSchema('Deep research requests (default model "sonar-deep-research")'),
+      },
+    },
+    templates: {
+      type: "object",
+      description:
+        "Template files that replace the built-in hint texts. Relative paths are resolved from the config file's directory",
+      additionalProperties: false,
+      properties: {
+        search: {
+          type: "string",
+          description: "Full hint for search matches",
+        },
+        research: {
+          type: "string",
+          description: "Full hint for research matches",
+        },
+        news: {
+          type: "string",
+          description: "Full hint for news matches (falls back to search)",
+        },
+        docs: {
+          type: "string",
+          description: "Full hint for documentation matches (falls back to search)",
+        },
+        comparison: {
+          type: "string",
+          description: "Full hint for comparison matches (falls back to search)",
+        },
+        factual: {
+          type: "string",
+          description: "Full hint for factual matches (falls back to search)",
+        },
+        reasoning: {
+          type: "string",
+          description: "Full hint for reasoning matches (falls back to search)",
+        },
+        reminder: {
+          type: "string",
+          description: "Short hint repeated during the cooldown",
+        },
+        agents: {
+          type: "string",
+          description: "Instructions written to AGENTS.md by install",
+        },
+      },
+    },
+  },
+};
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggest(key: string, node: SchemaNode & { type: "object" }): string {
+  // Also consider keys one level down, so a misplaced key such as a top-level
+  // "customPattern" points at "keywords.customPatterns"
+  const candidates: Array<[name: string, label: string]> = [];
+  for (const [name, child] of Object.entries(node.properties)) {
+    candidates.push([name, name]);
+    if (child.type === "object") {
+      for (const nested of Object.keys(child.properties)) {
+        candidates.push([nested, `${name}.${nested}`]);
+      }
+    }
+  }
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const [name, label] of candidates) {
+    const distance = editDistance(key, name);
+    if (distance < bestDistance) {
+      best = label;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(2, Math.floor(key.length / 3))
+    ? ` (did you mean "${best}"?)`
+    : "";
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+const INVALID = Symbol("invalid");
+
+function check(
+  value: unknown,
+  node: SchemaNode,
+  path: string,
+  issues: ValidationIssue[]
+): unknown {
+  const fail = (message: string) => {
+    issues.push({ path: path || "(root)", message });
+    return INVALID;
+  };
+
+  switch (node.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(`expected object, got ${describe(value)}`);
+      }
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childNode = node.properties[key] ?? node.additionalProperties;
+        if (!childNode) {
+          issues.push({
+            path: join(path, key),
+            message: `unknown key${suggest(key, node)}`,
+          });
+          continue;
+        }
+        const checked = check(child, childNode, join(path, key), issues);
+        if (checked !== INVALID) {
+          result[key] = checked;
+        }
+      }
+      return result;
+    }
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        return fail(`expected array, got ${describe(value)}`);
+      }
+      return value
+        .map((item, i) => check(item, node.items, `${path}[${i}]`, issues))
+        .filter((item) => item !== INVALID);
+    }
+
+    case "string": {
+      if (typeof value !== "string") {
+        return fail(`expected string, got ${describe(value)} ${JSON.stringify(value)}`);
+      }
+      if (node.enum && !node.enum.includes(value)) {
+        return fail(
+          `expected one of ${node.enum.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`
+        );
+      }
+      if (node.format === "regex") {
+        try {
+          new RegExp(value, "i");
+        } catch (err) {
+          return fail(
+            `invalid regular expression ${JSON.stringify(value)}: ${err instanceof Error ? err.message : err}`
+          );
+        }
+      }
+      return value;
+    }
+
+    case "boolean": {
+      if (typeof value !== "boolean") {
+        return fail(`expected boolean, got ${describe(value)} ${JSON.stringify(value)}`);
+      }
+      return value;
+    }
+
+    case "integer":
+    case "number": {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return fail(`expected ${node.type}, got ${describe(value)} ${JSON.stringify(value)}`);
+      }
+      if (node.type === "integer" && !Number.isInteger(value)) {
+        return fail(`expected integer, got ${value}`);
+      }
+      if (node.minimum !== undefined && value < node.minimum) {
+        return fail(`must be at least ${node.minimum}, got ${value}`);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Validates a parsed perplexity.json against `CONFIG_SCHEMA`. Invalid values
+ * are dropped from the returned config so the rest of the file still applies.
+ */
+export function validateConfig(value: unknown): ValidationResult<Record<string, unknown>> {
+  const issues: ValidationIssue[] = [];
+  const checked = check(value, CONFIG_SCHEMA, "", issues);
+  return {
+    value: checked === INVALID ? {} : (checked as Record<string, unknown>),
+    issues,
+  };
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+/** The JSON Schema document published alongside the package. */
+export function getJsonSchema(): Record<string, unknown> {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: SCHEMA_URL,
+    title: "perplexity-opencode configuration",
+    ...CONFIG_SCHEMA,
+  };
+}
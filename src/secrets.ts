@@ -0,0 +1,78 @@
+import { execSync } from "child_process";
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+const SECRETS_DIR = join(homedir(), ".config", "opencode");
+const SECRETS_FILE = "perplexity.key";
+
+/** How config files refer to the secrets file; `~` keeps them portable across machines. */
+export const SECRETS_FILE_REFERENCE = `~/.config/opencode/${SECRETS_FILE}`;
+
+const ENV_REFERENCE = /^\{env:([A-Za-z_][A-Za-z0-9_]*)\}$/;
+const COMMAND_TIMEOUT_MS = 10_000;
+
+// `pass show` may ask for a passphrase, so each command runs once per process
+const commandResults = new Map<string, string>();
+
+export function getSecretsFilePath(): string {
+  return join(SECRETS_DIR, SECRETS_FILE);
+}
+
+/** `{env:VAR}` and `{file:path}` are references; anything else is the secret itself. */
+export function isSecretReference(value: string): boolean {
+  return ENV_REFERENCE.test(value) || /^\{file:[^}]+\}$/.test(value);
+}
+
+/** Resolves an `{env:VAR}` reference; other values are returned as they are. */
+export function resolveEnvReference(value: string): string {
+  const match = ENV_REFERENCE.exec(value);
+  if (!match) {
+    return value;
+  }
+  const resolved = process.env[match[1]];
+  if (!resolved) {
+    throw new Error(`environment variable ${match[1]} is not set`);
+  }
+  return resolved;
+}
+
+export function readSecretFile(path: string): string {
+  let content: string;
+  try {
+    content = readFileSync(path, "utf-8");
+  } catch (err) {
+    throw new Error(`cannot read ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const secret = content.trim();
+  if (!secret) {
+    throw new Error(`${path} is empty`);
+  }
+  return secret;
+}
+
+export function runSecretCommand(command: string): string {
+  const cached = commandResults.get(command);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let output: string;
+  try {
+    output = execSync(command, {
+      encoding: "utf-8",
+      timeout: COMMAND_TIMEOUT_MS,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch (err) {
+    throw new Error(`\`${command}\` failed: ${err instanceof Error ? err.message.split("\n")[0] : String(err)}`);
+  }
+
+  // `pass` and friends print the secret on the first line
+  const secret = output.split("\n")[0].trim();
+  if (!secret) {
+    throw new Error(`\`${command}\` printed nothing`);
+  }
+  commandResults.set(command, secret);
+  return secret;
+}
@@ -0,0 +1,235 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+
+import { config, getConfigDir } from "../config.js";
+import type { SearchOptions, SearchResult } from "./perplexity.js";
+
+export interface CacheEntry {
+  query: string;
+  recency?: string;
+  after?: string;
+  before?: string;
+  model: string;
+  result: SearchResult;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+}
+
+interface CacheFile {
+  version: 1;
+  hits: number;
+  misses: number;
+  entries: Record<string, CacheEntry>;
+}
+
+export interface CacheStats {
+  path: string;
+  entries: number;
+  expired: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  oldest: number | null;
+  newest: number | null;
+}
+
+const MINUTE = 60_000;
+
+// Fresher filters go stale sooner; a search without a filter is treated like "month"
+const DEFAULT_TTL_MINUTES = {
+  day: 60,
+  week: 6 * 60,
+  month: 24 * 60,
+  year: 7 * 24 * 60,
+};
+
+const DEFAULT_MAX_SIZE_KB = 5120;
+
+export function getCacheFilePath(): string {
+  return join(getConfigDir(), "cache", "perplexity-search.json");
+}
+
+export function isCacheEnabled(): boolean {
+  return config.cache?.enabled !== false;
+}
+
+/** Case, whitespace and trailing punctuation don't change the answer. */
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[\s?!.]+$/, "")
+    .trim();
+}
+
+function getModel(options: SearchOptions): string {
+  return options.model || config.model || "sonar";
+}
+
+function getKey(options: SearchOptions): string {
+  const parts = [
+    normalizeQuery(options.query),
+    options.recency ?? "",
+    options.after ?? "",
+    options.before ?? "",
+    getModel(options),
+  ];
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex").slice(0, 32);
+}
+
+function getTtl(options: SearchOptions): number {
+  const ttl = { ...DEFAULT_TTL_MINUTES, ...config.cache?.ttlMinutes };
+  // A range that ended before today won't get new results
+  if (options.before && options.before < new Date().toISOString().slice(0, 10)) {
+    return ttl.year * MINUTE;
+  }
+  return ttl[options.recency ?? "month"] * MINUTE;
+}
+
+function emptyCache(): CacheFile {
+  return { version: 1, hits: 0, misses: 0, entries: {} };
+}
+
+function readCache(): CacheFile {
+  const path = getCacheFilePath();
+  if (!existsSync(path)) {
+    return emptyCache();
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as CacheFile;
+    return parsed.version === 1 && parsed.entries ? parsed : emptyCache();
+  } catch {
+    // A corrupt cache is just an empty one
+    return emptyCache();
+  }
+}
+
+function writeCache(cache: CacheFile): void {
+  const path = getCacheFilePath();
+  mkdirSync(join(getConfigDir(), "cache"), { recursive: true });
+  // Write-then-rename so concurrent OpenCode processes never read half a file
+  const temp = `${path}.${process.pid}.tmp`;
+  writeFileSync(temp, JSON.stringify(cache));
+  renameSync(temp, path);
+}
+
+function entrySize(entry: CacheEntry): number {
+  return Buffer.byteLength(JSON.stringify(entry));
+}
+
+// Drops expired entries, then the least recently used until under the cap
+function evict(cache: CacheFile, now: number): void {
+  for (const [key, entry] of Object.entries(cache.entries)) {
+    if (entry.expiresAt <= now) {
+      delete cache.entries[key];
+    }
+  }
+
+  const maxBytes = (config.cache?.maxSizeKb ?? DEFAULT_MAX_SIZE_KB) * 1024;
+  const byAge = Object.entries(cache.entries).sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt);
+  let total = byAge.reduce((sum, [, entry]) => sum + entrySize(entry), 0);
+
+  for (const [key, entry] of byAge) {
+    if (total <= maxBytes) break;
+    total -= entrySize(entry);
+    delete cache.entries[key];
+  }
+}
+
+export function getCached(options: SearchOptions, now = Date.now()): CacheEntry | null {
+  if (!isCacheEnabled()) {
+    return null;
+  }
+
+  const cache = readCache();
+  const key = getKey(options);
+  const entry = cache.entries[key];
+
+  if (entry && entry.expiresAt > now) {
+    cache.hits++;
+    entry.lastUsedAt = now;
+  } else {
+    cache.misses++;
+  }
+
+  try {
+    writeCache(cache);
+  } catch {
+    // Counters and LRU order are best-effort
+  }
+  return entry && entry.expiresAt > now ? entry : null;
+}
+
+/** Whether `getCached` would find a fresh entry. Unlike it, doesn't count a hit or miss. */
+export function hasCached(options: SearchOptions, now = Date.now()): boolean {
+  if (!isCacheEnabled()) {
+    return false;
+  }
+  const entry = readCache().entries[getKey(options)];
+  return !!entry && entry.expiresAt > now;
+}
+
+export function setCached(options: SearchOptions, result: SearchResult, now = Date.now()): void {
+  if (!isCacheEnabled()) {
+    return;
+  }
+
+  const cache = readCache();
+  cache.entries[getKey(options)] = {
+    query: options.query,
+    recency: options.recency,
+    after: options.after,
+    before: options.before,
+    model: getModel(options),
+    result,
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: now + getTtl(options),
+  };
+  evict(cache, now);
+  writeCache(cache);
+}
+
+export function getCacheStats(now = Date.now()): CacheStats {
+  const cache = readCache();
+  const entries = Object.values(cache.entries);
+  const created = entries.map((e) => e.createdAt);
+
+  return {
+    path: getCacheFilePath(),
+    entries: entries.length,
+    expired: entries.filter((e) => e.expiresAt <= now).length,
+    bytes: entries.reduce((sum, entry) => sum + entrySize(entry), 0),
+    hits: cache.hits,
+    misses: cache.misses,
+    oldest: created.length > 0 ? Math.min(...created) : null,
+    newest: created.length > 0 ? Math.max(...created) : null,
+  };
+}
+
+/** Removes every entry, or only the expired ones. Returns how many were removed. */
+export function clearCache(options: { expiredOnly?: boolean } = {}, now = Date.now()): number {
+  const cache = readCache();
+  const before = Object.keys(cache.entries).length;
+
+  if (!options.expiredOnly) {
+    rmSync(getCacheFilePath(), { force: true });
+    return before;
+  }
+
+  evict(cache, now);
+  writeCache(cache);
+  return before - Object.keys(cache.entries).length;
+}
+
+export function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / MINUTE);
+  if (minutes < 1) return "less than a minute";
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"}`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
@@ -1,19 +1,152 @@
-const DEBUG = process.env.PERPLEXITY_DEBUG === "true";
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from "fs";
+import { join } from "path";
 
-export function debug(...args: unknown[]): void {
-  if (DEBUG) {
-    console.log("[perplexity-opencode]", ...args);
+import { config, getConfigDir } from "../config.js";
+
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: LogLevel[] = ["trace", "debug", "info", "warn", "error"];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord extends LogFields {
+  time: string;
+  level: LogLevel;
+  event: string;
+  sessionID?: string;
+}
+
+const DEFAULT_LEVEL: LogLevel = "warn";
+const DEFAULT_MAX_SIZE_KB = 1024;
+const DEFAULT_MAX_FILES = 3;
+
+// Set by `log()` itself and never taken from the caller's fields
+const RECORD_FIELDS = new Set(["time", "level", "event"]);
+
+// Fields that carry (parts of) the user's message; logged only with `logging.logContent`
+const CONTENT_FIELDS = new Set(["messagePreview", "matchedText", "directives", "temporal", "query"]);
+
+const SECRET_KEY = /api[-_]?key|authorization|token|secret|password/i;
+const SECRET_VALUE = /\b(pplx-)[A-Za-z0-9_-]{4,}|\b(Bearer\s+)\S+/g;
+
+export function getLogFilePath(): string {
+  return join(getConfigDir(), "log", "perplexity-opencode.log");
+}
+
+function getLevel(): LogLevel {
+  const level = config.logging?.level;
+  return level && LOG_LEVELS.includes(level) ? level : DEFAULT_LEVEL;
+}
+
+function isEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(getLevel());
+}
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(SECRET_VALUE, (_, pplx?: string, bearer?: string) => `${pplx ?? bearer}[redacted]`);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    return redactFields(value as LogFields, true);
   }
+  return value;
+}
+
+function redactFields(fields: LogFields, nested = false): LogFields {
+  const logContent = config.logging?.logContent === true;
+  const result: LogFields = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || (!nested && RECORD_FIELDS.has(key))) continue;
+    if (SECRET_KEY.test(key)) {
+      result[key] = "[redacted]";
+    } else if (!nested && !logContent && CONTENT_FIELDS.has(key)) {
+      result[key] = typeof value === "string" ? `[redacted: ${value.length} chars]` : "[redacted]";
+    } else {
+      result[key] = redactValue(value);
+    }
+  }
+
+  return result;
+}
+
+let fileSize: { path: string; bytes: number } | null = null;
+
+function rotate(path: string): void {
+  const maxFiles = config.logging?.maxFiles ?? DEFAULT_MAX_FILES;
+
+  rmSync(`${path}.${maxFiles}`, { force: true });
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    if (existsSync(`${path}.${i}`)) {
+      renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+    }
+  }
+  renameSync(path, `${path}.1`);
+}
+
+function writeToFile(line: string): void {
+  const path = getLogFilePath();
+  const maxBytes = (config.logging?.maxSizeKb ?? DEFAULT_MAX_SIZE_KB) * 1024;
+
+  if (fileSize?.path !== path) {
+    mkdirSync(join(getConfigDir(), "log"), { recursive: true });
+    fileSize = { path, bytes: existsSync(path) ? statSync(path).size : 0 };
+  }
+
+  const bytes = Buffer.byteLength(line);
+  if (fileSize.bytes > 0 && fileSize.bytes + bytes > maxBytes) {
+    rotate(path);
+    fileSize.bytes = 0;
+  }
+
+  appendFileSync(path, line);
+  fileSize.bytes += bytes;
+}
+
+/**
+ * Writes a structured record to the rotating log file. Records are dropped
+ * when `logging.file` is off or the file can't be written: the plugin never
+ * prints to stdout or stderr, which would garble the OpenCode TUI. API keys
+ * are always redacted; message content only when `logging.logContent` is off.
+ */
+export function log(level: LogLevel, event: string, fields: LogFields = {}): void {
+  if (!isEnabled(level) || config.logging?.file === false) {
+    return;
+  }
+
+  const record: LogRecord = {
+    time: new Date().toISOString(),
+    level,
+    event,
+    ...redactFields(fields),
+  };
+
+  try {
+    writeToFile(JSON.stringify(record) + "\n");
+  } catch {
+    // An unwritable log directory must not break the plugin
+  }
+}
+
+export function trace(event: string, fields?: LogFields): void {
+  log("trace", event, fields);
+}
+
+export function debug(event: string, fields?: LogFields): void {
+  log("debug", event, fields);
 }
 
-export function info(...args: unknown[]): void {
-  console.log("[perplexity-opencode]", ...args);
+export function info(event: string, fields?: LogFields): void {
+  log("info", event, fields);
 }
 
-export function warn(...args: unknown[]): void {
-  console.warn("[perplexity-opencode]", ...args);
+export function warn(event: string, fields?: LogFields): void {
+  log("warn", event, fields);
 }
 
-export function error(...args: unknown[]): void {
-  console.error("[perplexity-opencode]", ...args);
+export function error(event: string, fields?: LogFields): void {
+  log("error", event, fields);
 }
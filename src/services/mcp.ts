@@ -0,0 +1,163 @@
+import { spawn } from "child_process";
+
+import type { McpTarget } from "../mcp.js";
+
+const PROTOCOL_VERSION = "2025-03-26";
+const DISCOVERY_TIMEOUT_MS = 30_000;
+
+const CLIENT_INFO = { name: "perplexity-opencode", version: "0.1.0" };
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: { tools?: Array<{ name?: unknown }> };
+  error?: { message?: string };
+}
+
+export class McpError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "McpError";
+  }
+}
+
+const INITIALIZE: JsonRpcMessage = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: PROTOCOL_VERSION, capabilities: {}, clientInfo: CLIENT_INFO },
+};
+const INITIALIZED: JsonRpcMessage = { jsonrpc: "2.0", method: "notifications/initialized" };
+const TOOLS_LIST: JsonRpcMessage = { jsonrpc: "2.0", id: 2, method: "tools/list" };
+
+function toolNames(message: JsonRpcMessage): string[] {
+  if (message.error) {
+    throw new McpError(`tools/list failed: ${message.error.message ?? "unknown error"}`);
+  }
+  return (message.result?.tools ?? [])
+    .map((tool) => tool.name)
+    .filter((name): name is string => typeof name === "string");
+}
+
+// Streamable HTTP servers answer with plain JSON or a short event stream
+async function readResponse(response: Response, id: number): Promise<JsonRpcMessage> {
+  const type = response.headers.get("content-type") ?? "";
+  if (!type.includes("text/event-stream")) {
+    return (await response.json()) as JsonRpcMessage;
+  }
+
+  for (const line of (await response.text()).split("\n")) {
+    if (!line.startsWith("data:")) continue;
+    const message = JSON.parse(line.slice(5)) as JsonRpcMessage;
+    if (message.id === id) {
+      return message;
+    }
+  }
+  throw new McpError(`no response to request ${id}`);
+}
+
+async function listRemoteTools(url: string, apiKey: string): Promise<string[]> {
+  let sessionId: string | null = null;
+  const signal = AbortSignal.timeout(DISCOVERY_TIMEOUT_MS);
+
+  const post = async (message: JsonRpcMessage) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${apiKey}`,
+        ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+      },
+      body: JSON.stringify(message),
+      signal,
+    });
+    if (!response.ok) {
+      throw new McpError(`${url} answered ${message.method} with HTTP ${response.status}`);
+    }
+    return response;
+  };
+
+  const initialized = await post(INITIALIZE);
+  sessionId = initialized.headers.get("mcp-session-id");
+  await readResponse(initialized, 1);
+  await post(INITIALIZED);
+  return toolNames(await readResponse(await post(TOOLS_LIST), 2));
+}
+
+function listLocalTools(command: string[], apiKey: string): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command[0], command.slice(1), {
+      env: { ...process.env, PERPLEXITY_API_KEY: apiKey },
+      stdio: ["pipe", "pipe", "ignore"],
+    });
+
+    let settled = false;
+    const finish = (error: Error | null, names?: string[]) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      child.kill();
+      if (error) reject(error);
+      else resolve(names ?? []);
+    };
+
+    const timer = setTimeout(
+      () => finish(new McpError(`\`${command.join(" ")}\` did not list its tools within ${DISCOVERY_TIMEOUT_MS / 1000}s`)),
+      DISCOVERY_TIMEOUT_MS
+    );
+
+    const send = (message: JsonRpcMessage) => child.stdin.write(JSON.stringify(message) + "\n");
+
+    // The stdio transport is newline-delimited JSON-RPC
+    let buffer = "";
+    child.stdout.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+
+        let message: JsonRpcMessage;
+        try {
+          message = JSON.parse(line) as JsonRpcMessage;
+        } catch {
+          // Some servers log to stdout; skip anything that isn't JSON
+          continue;
+        }
+
+        if (message.id === 1) {
+          send(INITIALIZED);
+          send(TOOLS_LIST);
+        } else if (message.id === 2) {
+          try {
+            finish(null, toolNames(message));
+          } catch (error) {
+            finish(error as Error);
+          }
+        }
+      }
+    });
+
+    child.on("error", (error) => finish(new McpError(`cannot start \`${command[0]}\`: ${error.message}`)));
+    child.on("exit", (code) =>
+      finish(new McpError(`\`${command.join(" ")}\` exited with code ${code} before listing its tools`))
+    );
+    child.stdin.on("error", () => {
+      // The exit handler reports why the server went away
+    });
+
+    send(INITIALIZE);
+  });
+}
+
+/** Asks the MCP server which tools it provides, by starting it or calling its URL. */
+export function discoverMcpTools(target: McpTarget, apiKey: string): Promise<string[]> {
+  return target.transport === "remote"
+    ? listRemoteTools(target.url, apiKey)
+    : listLocalTools(target.command, apiKey);
+}
@@ -0,0 +1,157 @@
+import { config } from "../config.js";
+
+export type Recency = "day" | "week" | "month" | "year";
+
+export const RECENCY_VALUES: Recency[] = ["day", "week", "month", "year"];
+
+export interface SearchOptions {
+  query: string;
+  recency?: Recency;
+  /** Only include results published on or after this date (YYYY-MM-DD) */
+  after?: string;
+  /** Only include results published on or before this date (YYYY-MM-DD) */
+  before?: string;
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface SearchResult {
+  content: string;
+  citations: string[];
+  /** Page titles by URL, when the API returns search results */
+  titles?: Record<string, string>;
+  model: string;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string;
+    };
+  }>;
+  citations?: string[];
+  search_results?: Array<{
+    url?: string;
+    title?: string;
+  }>;
+}
+
+export class PerplexityError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "PerplexityError";
+  }
+}
+
+function getEndpoint(): string {
+  const baseUrl = (config.baseUrl || "https://api.perplexity.ai").replace(
+    /\/+$/,
+    ""
+  );
+  return `${baseUrl}/chat/completions`;
+}
+
+// The API expects dates as M/D/YYYY
+function toApiDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return `${month}/${day}/${year}`;
+}
+
+function extractTitles(body: ChatCompletionResponse): Record<string, string> {
+  const titles: Record<string, string> = {};
+  for (const result of body.search_results ?? []) {
+    if (typeof result.url === "string" && typeof result.title === "string" && result.title) {
+      titles[result.url] = result.title;
+    }
+  }
+  return titles;
+}
+
+function extractCitations(body: ChatCompletionResponse): string[] {
+  if (Array.isArray(body.citations) && body.citations.length > 0) {
+    return body.citations.filter((c): c is string => typeof c === "string");
+  }
+
+  return (body.search_results ?? [])
+    .map((r) => r.url)
+    .filter((url): url is string => typeof url === "string");
+}
+
+export async function search(options: SearchOptions): Promise<SearchResult> {
+  if (!config.apiKey) {
+    throw new PerplexityError(
+      "Perplexity API key is not configured. Set PERPLEXITY_API_KEY or add apiKey or apiKeyFile to ~/.config/opencode/perplexity.json"
+    );
+  }
+
+  const model = options.model || config.model || "sonar";
+
+  const requestBody: Record<string, unknown> = {
+    model,
+    messages: [{ role: "user", content: options.query }],
+  };
+
+  if (options.recency) {
+    requestBody.search_recency_filter = options.recency;
+  }
+  if (options.after) {
+    requestBody.search_after_date_filter = toApiDate(options.after);
+  }
+  if (options.before) {
+    requestBody.search_before_date_filter = toApiDate(options.before);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(getEndpoint(), {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify(requestBody),
+      signal: options.signal,
+    });
+  } catch (err) {
+    throw new PerplexityError(`Perplexity request failed: ${String(err)}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new PerplexityError(
+      `Perplexity API returned ${response.status}${detail ? `: ${detail.slice(0, 500)}` : ""}`,
+      response.status
+    );
+  }
+
+  const body = (await response.json()) as ChatCompletionResponse;
+  const content = body.choices?.[0]?.message?.content;
+
+  if (typeof content !== "string") {
+    throw new PerplexityError("Perplexity API returned no answer");
+  }
+
+  return {
+    content,
+    citations: extractCitations(body),
+    titles: extractTitles(body),
+    model: body.model || model,
+  };
+}
+
+export function formatSearchResult(result: SearchResult): string {
+  if (result.citations.length === 0) {
+    return result.content;
+  }
+
+  const sources = result.citations
+    .map((url, i) => `[${i + 1}] ${url}`)
+    .join("\n");
+
+  return `${result.content}\n\nSources:\n${sources}`;
+}
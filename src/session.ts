@@ -0,0 +1,103 @@
+import { config } from "./config.js";
+import type { KeywordMatch } from "./keywords.js";
+
+export type NudgeLevel = "full" | "reminder" | "none";
+
+interface SessionState {
+  /** User messages seen in this session */
+  messageCount: number;
+  /** Set by a `!noweb session` directive */
+  suppressed?: boolean;
+  lastFull?: {
+    type: KeywordMatch["type"];
+    messageCount: number;
+    at: number;
+  };
+}
+
+const NUDGE_RANK: Record<KeywordMatch["type"], number> = {
+  search: 1,
+  research: 2,
+};
+
+const sessions = new Map<string, SessionState>();
+
+function getState(sessionID: string): SessionState {
+  let state = sessions.get(sessionID);
+  if (!state) {
+    state = { messageCount: 0 };
+    sessions.set(sessionID, state);
+  }
+  return state;
+}
+
+/** Counts a user message towards the session's cooldown. */
+export function recordMessage(sessionID: string): void {
+  getState(sessionID).messageCount++;
+}
+
+function inCooldown(state: SessionState, now: number): boolean {
+  const last = state.lastFull;
+  if (!last) {
+    return false;
+  }
+
+  const { cooldownMessages = 0, cooldownMinutes = 0 } = config.nudges ?? {};
+  const limits: boolean[] = [];
+
+  if (cooldownMessages > 0) {
+    limits.push(state.messageCount - last.messageCount < cooldownMessages);
+  }
+  if (cooldownMinutes > 0) {
+    limits.push(now - last.at < cooldownMinutes * 60_000);
+  }
+
+  // The full hint comes back as soon as any configured limit has passed
+  return limits.length > 0 && limits.every(Boolean);
+}
+
+/**
+ * Decides how much of a hint to inject for a match. The full hint is shown
+ * once per cooldown window; later matches get a short reminder (or nothing,
+ * depending on `nudges.repeat`). Escalating from search to research always
+ * gets the full research hint.
+ */
+export function decideNudge(
+  sessionID: string,
+  type: KeywordMatch["type"],
+  now = Date.now()
+): NudgeLevel {
+  const state = getState(sessionID);
+  const last = state.lastFull;
+
+  if (!last || NUDGE_RANK[type] > NUDGE_RANK[last.type] || !inCooldown(state, now)) {
+    return "full";
+  }
+
+  return config.nudges?.repeat === "none" ? "none" : "reminder";
+}
+
+export function recordNudge(
+  sessionID: string,
+  type: KeywordMatch["type"],
+  level: NudgeLevel,
+  now = Date.now()
+): void {
+  if (level !== "full") {
+    return;
+  }
+  const state = getState(sessionID);
+  state.lastFull = { type, messageCount: state.messageCount, at: now };
+}
+
+export function setSessionSuppressed(sessionID: string, suppressed: boolean): void {
+  getState(sessionID).suppressed = suppressed;
+}
+
+export function isSessionSuppressed(sessionID: string): boolean {
+  return sessions.get(sessionID)?.suppressed ?? false;
+}
+
+export function forgetSession(sessionID: string): void {
+  sessions.delete(sessionID);
+}
@@ -0,0 +1,282 @@
+import { readFileSync } from "fs";
+
+import { config } from "./config.js";
+import type { ConfigIssue, PerplexityConfig, TemplateName } from "./config.js";
+import {
+  getSearchNudge,
+  getResearchNudge,
+  getReminderNudge,
+} from "./keywords.js";
+import type { KeywordMatch } from "./keywords.js";
+import { getLanguageName } from "./languages.js";
+import { getMcpToolNames } from "./mcp.js";
+import { describeTemporal, formatDate } from "./temporal.js";
+import type { TemporalHint } from "./temporal.js";
+import type { ResolvedRoute } from "./routing.js";
+import { SEARCH_TOOL_NAME } from "./tools.js";
+
+export const TEMPLATE_VARIABLES = [
+  "matchedText",
+  "category",
+  "type",
+  "recency",
+  "after",
+  "before",
+  "timeFrame",
+  "toolName",
+  "model",
+  "date",
+  "language",
+  "mcpTools",
+] as const;
+
+export type TemplateVariables = Record<(typeof TEMPLATE_VARIABLES)[number], string>;
+
+type TemplateNode =
+  | { kind: "text"; value: string }
+  | { kind: "variable"; name: keyof TemplateVariables }
+  | {
+      kind: "block";
+      name: keyof TemplateVariables;
+      negate: boolean;
+      body: TemplateNode[];
+      otherwise: TemplateNode[];
+    };
+
+export type Template = TemplateNode[];
+
+export class TemplateError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly line: number
+  ) {
+    super(`${reason} (line ${line})`);
+    this.name = "TemplateError";
+  }
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([\w]*)\s*([\w]*)\s*\}\}/g;
+
+function isVariable(name: string): name is keyof TemplateVariables {
+  return (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
+
+function lineAt(source: string, offset: number): number {
+  return source.slice(0, offset).split("\n").length;
+}
+
+/**
+ * Compiles `{{variable}}`, `{{#if variable}}...{{else}}...{{/if}}` and
+ * `{{#unless variable}}...{{/unless}}`. A block tag on a line of its own
+ * takes the line with it, so conditionals don't leave blank lines behind.
+ */
+export function compileTemplate(source: string): Template {
+  const root: Template = [];
+  const stack: Array<{
+    node: TemplateNode & { kind: "block" };
+    tag: string;
+    line: number;
+    parent: TemplateNode[];
+  }> = [];
+  let current = root;
+  let last = 0;
+
+  const unclosed = source.replace(TAG_PATTERN, (tag) => " ".repeat(tag.length)).indexOf("{{");
+  if (unclosed !== -1) {
+    throw new TemplateError("unterminated or malformed tag", lineAt(source, unclosed));
+  }
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, word, argument] = match;
+    const line = lineAt(source, match.index!);
+    let start = match.index!;
+    let end = start + tag.length;
+
+    if (sigil || word === "else") {
+      const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+      const lineEnd = source.indexOf("\n", end);
+      const before = source.slice(lineStart, start);
+      const after = source.slice(end, lineEnd === -1 ? source.length : lineEnd);
+      if (before.trim() === "" && after.trim() === "" && lineStart >= last) {
+        start = lineStart;
+        end = lineEnd === -1 ? source.length : lineEnd + 1;
+      }
+    }
+
+    if (start > last) {
+      current.push({ kind: "text", value: source.slice(last, start) });
+    }
+    last = end;
+
+    if (sigil === "#") {
+      if (word !== "if" && word !== "unless") {
+        throw new TemplateError(`unknown block "{{#${word}}}"`, line);
+      }
+      if (!isVariable(argument)) {
+        throw new TemplateError(`unknown variable "${argument}" in "{{#${word}}}"`, line);
+      }
+      const node = {
+        kind: "block" as const,
+        name: argument,
+        negate: word === "unless",
+        body: [],
+        otherwise: [],
+      };
+      current.push(node);
+      stack.push({ node, tag: word, line, parent: current });
+      current = node.body;
+    } else if (sigil === "/") {
+      const open = stack.pop();
+      if (!open || open.tag !== word || argument) {
+        throw new TemplateError(`unexpected "${tag}"`, line);
+      }
+      current = open.parent;
+    } else if (word === "else" && !argument) {
+      const open = stack[stack.length - 1];
+      if (!open || current === open.node.otherwise) {
+        throw new TemplateError(`unexpected "{{else}}"`, line);
+      }
+      current = open.node.otherwise;
+    } else if (isVariable(word) && !argument) {
+      current.push({ kind: "variable", name: word });
+    } else {
+      throw new TemplateError(
+        `unknown variable "${word}${argument ? ` ${argument}` : ""}" (expected one of ${TEMPLATE_VARIABLES.join(", ")})`,
+        line
+      );
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new TemplateError(`"{{#${open.tag}}}" is never closed`, open.line);
+  }
+  if (last < source.length) {
+    current.push({ kind: "text", value: source.slice(last) });
+  }
+
+  return root;
+}
+
+export function renderTemplate(template: Template, variables: TemplateVariables): string {
+  return template
+    .map((node) => {
+      switch (node.kind) {
+        case "text":
+          return node.value;
+        case "variable":
+          return variables[node.name];
+        case "block": {
+          const truthy = variables[node.name] !== "";
+          return renderTemplate(truthy !== node.negate ? node.body : node.otherwise, variables);
+        }
+      }
+    })
+    .join("");
+}
+
+export interface LoadedTemplates {
+  templates: Partial<Record<TemplateName, Template>>;
+  /** Templates that could not be read or compiled; the built-in text is used instead */
+  issues: ConfigIssue[];
+}
+
+export function compileTemplateFiles(
+  files: PerplexityConfig["templates"] = {}
+): LoadedTemplates {
+  const templates: Partial<Record<TemplateName, Template>> = {};
+  const issues: ConfigIssue[] = [];
+
+  for (const [name, file] of Object.entries(files) as Array<[TemplateName, string]>) {
+    try {
+      templates[name] = compileTemplate(readFileSync(file, "utf-8"));
+    } catch (error) {
+      issues.push({
+        file,
+        path: `templates.${name}`,
+        message:
+          error instanceof TemplateError
+            ? error.message
+            : `cannot read template: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  return { templates, issues };
+}
+
+let loaded: LoadedTemplates = { templates: {}, issues: [] };
+
+/** Compiles the templates named in the current config. Call after the config is (re)loaded. */
+export function loadTemplates(): LoadedTemplates {
+  loaded = compileTemplateFiles(config.templates);
+  return loaded;
+}
+
+export function getTemplateVariables(
+  match?: KeywordMatch,
+  temporal?: TemporalHint | null,
+  route?: ResolvedRoute,
+  now = new Date()
+): TemplateVariables {
+  return {
+    matchedText: match?.matchedText ?? "",
+    category: match?.category ?? "",
+    type: match?.type ?? "",
+    recency: temporal?.kind === "recency" ? temporal.recency : "",
+    after: temporal?.kind === "range" ? temporal.after : "",
+    before: temporal?.kind === "range" ? temporal.before : "",
+    timeFrame: temporal ? describeTemporal(temporal, now) : "",
+    toolName: route?.tool ?? SEARCH_TOOL_NAME,
+    model: route?.model ?? (config.model || "sonar"),
+    date: formatDate(now),
+    language: match?.language && match.language !== "en" ? getLanguageName(match.language) : "",
+    mcpTools: getMcpToolNames().join(", "),
+  };
+}
+
+function render(names: TemplateName[], variables: TemplateVariables): string | null {
+  for (const name of names) {
+    const template = loaded.templates[name];
+    if (template) {
+      return renderTemplate(template, variables).trim();
+    }
+  }
+  return null;
+}
+
+function wrapHint(text: string): string {
+  return `<perplexity-hint>\n${text}\n</perplexity-hint>`;
+}
+
+/**
+ * The hint injected for a match. A configured template for the match's
+ * category wins over one for its type; without either the built-in text is
+ * used.
+ */
+export function getNudge(
+  level: "full" | "reminder",
+  match: KeywordMatch,
+  temporal: TemporalHint | null,
+  route: ResolvedRoute
+): string {
+  const variables = getTemplateVariables(match, temporal, route);
+
+  if (level === "reminder") {
+    const text = render(["reminder"], variables);
+    return text !== null ? wrapHint(text) : getReminderNudge(match.type, route);
+  }
+
+  const names: TemplateName[] =
+    match.category === match.type
+      ? [match.type]
+      : [match.category as TemplateName, match.type];
+  const text = render(names, variables);
+  if (text !== null) {
+    return wrapHint(text);
+  }
+
+  return match.type === "research"
+    ? getResearchNudge(temporal, route, match.language)
+    : getSearchNudge(temporal, route, match.language);
+}
@@ -0,0 +1,202 @@
+import { CODE_PATTERN } from "./keywords.js";
+import type { Recency } from "./services/perplexity.js";
+
+export type TemporalHint =
+  | { kind: "recency"; recency: Recency; expression: string }
+  | { kind: "range"; after: string; before: string; expression: string }
+  | { kind: "historical"; expression: string };
+
+// Years further back than this are treated as history rather than a range
+const HISTORICAL_YEARS = 5;
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const RECENCY_PATTERNS: Array<[RegExp, Recency]> = [
+  [/\b(today|tonight|this\s+morning|this\s+afternoon|yesterday('s)?|breaking|past\s+24\s+hours|last\s+24\s+hours)\b/i, "day"],
+  [/\b(as\s+of\s+(now|today)|right\s+now|at\s+the\s+moment|this\s+week|last\s+week|past\s+week|past\s+few\s+days|last\s+few\s+days)\b/i, "week"],
+  [/\b(this\s+month|past\s+month|last\s+month('s)?|recently|these\s+days)\b/i, "month"],
+  [/\b(this\s+year|past\s+year|last\s+year|past\s+12\s+months|last\s+12\s+months)\b/i, "year"],
+];
+
+const HISTORICAL_PATTERN =
+  /\b(history\s+of|historically|historical|originally|back\s+in\s+the|in\s+the\s+(early\s+|late\s+)?(\d{2}|\d{4})'?s|(first|originally)\s+(invented|created|released|founded)|who\s+invented|when\s+was\s+\w+(\s+\w+)?\s+(invented|founded|created))\b/i;
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+export function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** The local day a timestamp falls on, as YYYY-MM-DD. Per-day counts use it as their key. */
+export function dayKey(time: number | string): string {
+  return formatDate(new Date(time));
+}
+
+function earlier(a: Date, b: Date): Date {
+  return a < b ? a : b;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function range(after: Date, before: Date, expression: string): TemporalHint {
+  return { kind: "range", after: formatDate(after), before: formatDate(before), expression };
+}
+
+// The sentence or clause around `index`, for a year that isn't next to its quarter
+function clauseAt(text: string, index: number): { start: number; end: number } {
+  const before = text.slice(0, index).search(/[^.;!?\n]*$/);
+  const after = /[.;!?\n]/.exec(text.slice(index));
+  return { start: before, end: after ? index + after.index : text.length };
+}
+
+function parseQuarter(text: string, now: Date): TemporalHint | null {
+  const match = /\bQ([1-4])(?:\s*(?:of\s+)?'?(\d{4}|\d{2}))?\b/.exec(text);
+  if (!match) return null;
+
+  const quarter = Number(match[1]);
+  let expression = match[0];
+  let yearText = match[2];
+  if (!yearText) {
+    // "Q3 earnings of 2024", "in 2024, Q3 revenue"
+    const clause = clauseAt(text, match.index);
+    const yearPattern = /(?:\b(?:19|20)\d{2}|'\d{2})\b/g;
+    yearPattern.lastIndex = clause.start;
+    const year = yearPattern.exec(text.slice(0, clause.end));
+    if (year) {
+      yearText = year[0].replace("'", "");
+      const start = Math.min(match.index, year.index);
+      expression = text.slice(start, Math.max(match.index + match[0].length, year.index + year[0].length));
+    }
+  }
+
+  let year: number;
+  if (yearText) {
+    year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+  } else {
+    // A bare "Q3" means the most recent Q3 that has started
+    year = now.getFullYear();
+    if (new Date(year, (quarter - 1) * 3, 1) > now) year--;
+  }
+
+  const start = new Date(year, (quarter - 1) * 3, 1);
+  if (start > now) return null;
+  const end = new Date(year, quarter * 3, 0);
+  return range(start, earlier(end, now), expression);
+}
+
+function parseSince(text: string, now: Date): TemporalHint | null {
+  const match = new RegExp(
+    `\\bsince\\s+(last\\s+(week|month|year)|(${MONTHS.join("|")})(\\s+\\d{4})?|(\\d{4}))\\b`,
+    "i"
+  ).exec(text);
+  if (!match) return null;
+
+  let start: Date;
+  if (match[2]) {
+    const unit = match[2].toLowerCase();
+    if (unit === "week") {
+      start = addDays(now, -7 - ((now.getDay() + 6) % 7));
+    } else if (unit === "month") {
+      start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    } else {
+      start = new Date(now.getFullYear() - 1, 0, 1);
+    }
+  } else if (match[3]) {
+    const month = MONTHS.indexOf(match[3].toLowerCase());
+    let year = match[4] ? Number(match[4].trim()) : now.getFullYear();
+    if (!match[4] && new Date(year, month, 1) > now) year--;
+    start = new Date(year, month, 1);
+  } else {
+    start = new Date(Number(match[5]), 0, 1);
+  }
+  if (start > now) return null;
+
+  return range(start, now, match[0]);
+}
+
+function parseLastN(text: string, now: Date): TemporalHint | null {
+  const match = /\b(?:last|past)\s+(\d+)\s+(day|week|month|year)s?\b/i.exec(text);
+  if (!match) return null;
+
+  const days = Number(match[1]) * UNIT_DAYS[match[2].toLowerCase()];
+  for (const [recency, window] of Object.entries(UNIT_DAYS)) {
+    if (days === window) {
+      return { kind: "recency", recency: recency as Recency, expression: match[0] };
+    }
+  }
+  return range(addDays(now, -days), now, match[0]);
+}
+
+function parseYear(text: string, now: Date): TemporalHint | null {
+  const match = /\b(?:in|during|for|of|from)\s+(\d{4})\b/i.exec(text);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const current = now.getFullYear();
+  if (year > current) return null;
+  if (year < current - HISTORICAL_YEARS) {
+    return { kind: "historical", expression: match[0] };
+  }
+  return range(new Date(year, 0, 1), earlier(new Date(year, 11, 31), now), match[0]);
+}
+
+/**
+ * Resolves time expressions in a message ("today", "since last month",
+ * "Q3 2025", "in 2024", "history of ...") against `now`. Explicit ranges win
+ * over relative windows, and relative windows over historical markers.
+ * Code blocks are ignored.
+ */
+export function parseTemporal(message: string, now = new Date()): TemporalHint | null {
+  const text = message.replace(CODE_PATTERN, "");
+
+  for (const parser of [parseQuarter, parseSince, parseLastN, parseYear]) {
+    const hint = parser(text, now);
+    if (hint && hint.kind !== "historical") return hint;
+  }
+
+  for (const [pattern, recency] of RECENCY_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) return { kind: "recency", recency, expression: match[0] };
+  }
+
+  const year = parseYear(text, now);
+  if (year) return year;
+
+  const historical = HISTORICAL_PATTERN.exec(text);
+  if (historical) return { kind: "historical", expression: historical[0] };
+
+  return null;
+}
+
+/** The line added to a hint telling the agent exactly which filter to use. */
+export function describeTemporal(hint: TemporalHint, now = new Date()): string {
+  switch (hint.kind) {
+    case "recency":
+      return `Time frame: the user said "${hint.expression}" (today is ${formatDate(now)}). Pass recency="${hint.recency}".`;
+    case "range":
+      return `Time frame: "${hint.expression}" resolves to ${hint.after} through ${hint.before}. Pass after="${hint.after}" and before="${hint.before}" instead of a recency filter.`;
+    case "historical":
+      return `Time frame: this is a historical question ("${hint.expression}"). Do not pass a recency filter or date range.`;
+  }
+}
@@ -0,0 +1,129 @@
+import { tool } from "@opencode-ai/plugin";
+import type { ToolDefinition } from "@opencode-ai/plugin";
+
+import { config } from "./config.js";
+import {
+  search,
+  formatSearchResult,
+  RECENCY_VALUES,
+} from "./services/perplexity.js";
+import type { Recency, SearchOptions } from "./services/perplexity.js";
+import { formatAge, getCached, hasCached, setCached } from "./services/cache.js";
+import { debug } from "./services/logger.js";
+
+export const SEARCH_TOOL_NAME = "perplexity_search";
+
+const z = tool.schema;
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Whether a tool call is a `perplexity_search` the cache will answer without calling the API. */
+export function isCachedSearch(tool: string, args: Record<string, unknown> | undefined): boolean {
+  if (tool !== SEARCH_TOOL_NAME || typeof args?.query !== "string" || args.fresh === true) {
+    return false;
+  }
+  return hasCached({
+    query: args.query,
+    recency: optionalString(args.recency) as Recency | undefined,
+    after: optionalString(args.after),
+    before: optionalString(args.before),
+    model: optionalString(args.model),
+  });
+}
+
+export const perplexitySearchTool: ToolDefinition = tool({
+  description:
+    "Search the web using Perplexity AI. Returns an answer grounded in current web results, followed by a numbered list of sources. Use for current events, documentation lookups, factual questions and comparisons.",
+  args: {
+    query: z.string().min(1).describe("The search query"),
+    recency: z
+      .enum(RECENCY_VALUES as [string, ...string[]])
+      .optional()
+      .describe(
+        'Restrict results to a time window: "day", "week", "month" or "year"'
+      ),
+    after: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional()
+      .describe("Only include results published on or after this date (YYYY-MM-DD)"),
+    before: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional()
+      .describe("Only include results published on or before this date (YYYY-MM-DD)"),
+    model: z
+      .string()
+      .optional()
+      .describe(
+        `Perplexity model to use (defaults to "${config.model || "sonar"}")`
+      ),
+    fresh: z
+      .boolean()
+      .optional()
+      .describe("Skip the result cache and always query Perplexity"),
+  },
+  async execute(args, context) {
+    const start = Date.now();
+
+    const options: SearchOptions = {
+      query: args.query,
+      recency: args.recency as (typeof RECENCY_VALUES)[number] | undefined,
+      after: args.after,
+      before: args.before,
+      model: args.model,
+      signal: context.abort,
+    };
+
+    const cached = args.fresh ? null : getCached(options);
+    if (cached) {
+      const age = formatAge(start - cached.createdAt);
+      debug("tool.search_cache_hit", {
+        sessionID: context.sessionID,
+        tool: SEARCH_TOOL_NAME,
+        age: start - cached.createdAt,
+      });
+
+      return {
+        title: `${args.query} (cached)`,
+        output: `[Cached result from ${age} ago - pass fresh=true for a new search]\n\n${formatSearchResult(cached.result)}`,
+        metadata: {
+          model: cached.result.model,
+          citations: cached.result.citations,
+          titles: cached.result.titles,
+          cached: true,
+          cachedAt: new Date(cached.createdAt).toISOString(),
+        },
+      };
+    }
+
+    const result = await search(options);
+
+    try {
+      setCached(options, result);
+    } catch (err) {
+      debug("tool.search_cache_write_failed", { error: String(err) });
+    }
+
+    debug("tool.search_completed", {
+      sessionID: context.sessionID,
+      tool: SEARCH_TOOL_NAME,
+      duration: Date.now() - start,
+      model: result.model,
+      citations: result.citations.length,
+    });
+
+    return {
+      title: args.query,
+      output: formatSearchResult(result),
+      metadata: {
+        model: result.model,
+        citations: result.citations,
+        titles: result.titles,
+        cached: false,
+      },
+    };
+  },
+});
@@ -0,0 +1,96 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "fs";
+
+import {
+  checkBudget,
+  getBudgetFilePath,
+  getBudgetStatus,
+  getHintBudget,
+  recordBudgetCall,
+} from "../src/budget.js";
+import { resetConfig, useConfig } from "./helpers.js";
+
+// Monday, 16 June 2025, local time
+const NOW = new Date(2025, 5, 16, 12).getTime();
+const NEXT_DAY = new Date(2025, 5, 17, 9).getTime();
+
+beforeEach(() => {
+  rmSync(getBudgetFilePath(), { force: true });
+  resetConfig();
+});
+
+afterAll(() => {
+  rmSync(getBudgetFilePath(), { force: true });
+  resetConfig();
+});
+
+function call(sessionID: string, model = "sonar", now = NOW): void {
+  recordBudgetCall(sessionID, "perplexity_search", { model }, { model }, now);
+}
+
+describe("recordBudgetCall", () => {
+  test("counts calls and estimated cost per day and session", () => {
+    call("a");
+    call("a", "sonar-pro");
+    call("b");
+
+    expect(getBudgetStatus("a", NOW)).toMatchObject({
+      day: { calls: 3, cost: 0.04 },
+      session: { calls: 2, cost: 0.03 },
+    });
+    expect(getBudgetStatus("a", NEXT_DAY).day).toEqual({ calls: 0, cost: 0 });
+  });
+
+  test("does not count cached results", () => {
+    recordBudgetCall("a", "perplexity_search", {}, { cached: true }, NOW);
+    expect(getBudgetStatus("a", NOW).day.calls).toBe(0);
+  });
+
+  test("does nothing with the budget turned off", () => {
+    useConfig({ budget: { enabled: false } });
+    call("a");
+    expect(getBudgetStatus("a", NOW).day.calls).toBe(0);
+  });
+});
+
+describe("checkBudget", () => {
+  test("refuses a call once a call limit is reached", () => {
+    useConfig({ budget: { dailyCalls: 2 } });
+    call("a");
+    expect(checkBudget("b", "sonar", NOW)).toBeNull();
+    call("b");
+
+    expect(checkBudget("c", "sonar", NOW)).toEqual({ limit: "dailyCalls", used: 2, max: 2, cost: 0.01 });
+    expect(checkBudget("c", "sonar", NEXT_DAY)).toBeNull();
+  });
+
+  test("counts the session limit per session", () => {
+    useConfig({ budget: { sessionCalls: 1 } });
+    call("a");
+
+    expect(checkBudget("a", "sonar", NOW)).toMatchObject({ limit: "sessionCalls", used: 1, max: 1 });
+    expect(checkBudget("b", "sonar", NOW)).toBeNull();
+  });
+
+  test("refuses a call that would go over the daily cost", () => {
+    useConfig({ budget: { dailyCost: 0.1 } });
+    call("a");
+
+    expect(checkBudget("a", "sonar", NOW)).toBeNull();
+    expect(checkBudget("a", "sonar-deep-research", NOW)).toMatchObject({ limit: "dailyCost", cost: 0.5 });
+  });
+});
+
+describe("getHintBudget", () => {
+  test("downgrades research when only a few calls are left, then stops hinting", () => {
+    useConfig({ budget: { dailyCalls: 3 } });
+    expect(getHintBudget("a", "sonar-deep-research", NOW)).toBe("ok");
+
+    call("a");
+    expect(getHintBudget("a", "sonar-deep-research", NOW)).toBe("downgraded");
+
+    call("a");
+    call("a");
+    expect(getHintBudget("a", "sonar-deep-research", NOW)).toBe("exhausted");
+  });
+});
@@ -0,0 +1,102 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+
+import { clearCache, getCacheStats, getCached, hasCached, setCached } from "../src/services/cache.js";
+import type { SearchResult } from "../src/services/perplexity.js";
+import { isCachedSearch } from "../src/tools.js";
+import { resetConfig, useConfig } from "./helpers.js";
+
+const NOW = new Date(2025, 5, 16, 12).getTime();
+const MINUTE = 60_000;
+
+function result(content: string): SearchResult {
+  return { content, citations: ["https://a.example"], model: "sonar" };
+}
+
+beforeEach(() => {
+  clearCache();
+  resetConfig();
+});
+
+afterAll(() => {
+  clearCache();
+  resetConfig();
+});
+
+describe("getCached", () => {
+  test("finds a result by its normalized query and filters", () => {
+    setCached({ query: "Latest Bun release?", recency: "week" }, result("Bun 1.2"), NOW);
+
+    expect(getCached({ query: "latest  bun release", recency: "week" }, NOW)?.result.content).toBe("Bun 1.2");
+    expect(getCached({ query: "latest bun release", recency: "day" }, NOW)).toBeNull();
+    expect(getCached({ query: "latest bun release", recency: "week", model: "sonar-pro" }, NOW)).toBeNull();
+    expect(getCacheStats(NOW)).toMatchObject({ entries: 1, hits: 1, misses: 2 });
+  });
+
+  test("expires entries after the TTL for their recency", () => {
+    setCached({ query: "news", recency: "day" }, result("today"), NOW);
+
+    expect(getCached({ query: "news", recency: "day" }, NOW + 59 * MINUTE)).not.toBeNull();
+    expect(getCached({ query: "news", recency: "day" }, NOW + 60 * MINUTE)).toBeNull();
+  });
+
+  test("uses the configured TTL", () => {
+    useConfig({ cache: { ttlMinutes: { day: 5 } } });
+    setCached({ query: "news", recency: "day" }, result("today"), NOW);
+
+    expect(getCached({ query: "news", recency: "day" }, NOW + 5 * MINUTE)).toBeNull();
+  });
+
+  test("returns nothing with the cache turned off", () => {
+    setCached({ query: "news" }, result("today"), NOW);
+    useConfig({ cache: { enabled: false } });
+
+    expect(getCached({ query: "news" }, NOW)).toBeNull();
+  });
+});
+
+describe("setCached", () => {
+  test("evicts the least recently used entries over the size cap", () => {
+    useConfig({ cache: { maxSizeKb: 1 } });
+    const content = "x".repeat(300);
+    setCached({ query: "a" }, result(content), NOW);
+    setCached({ query: "b" }, result(content), NOW + 1);
+    // Reading "a" makes "b" the least recently used
+    getCached({ query: "a" }, NOW + 2);
+    setCached({ query: "c" }, result(content), NOW + 3);
+
+    expect(getCached({ query: "a" }, NOW + 4)).not.toBeNull();
+    expect(getCached({ query: "b" }, NOW + 4)).toBeNull();
+    expect(getCached({ query: "c" }, NOW + 4)).not.toBeNull();
+  });
+});
+
+describe("clearCache", () => {
+  test("removes only expired entries when asked", () => {
+    setCached({ query: "old", recency: "day" }, result("old"), NOW);
+    setCached({ query: "new", recency: "year" }, result("new"), NOW);
+
+    expect(clearCache({ expiredOnly: true }, NOW + 2 * 60 * MINUTE)).toBe(1);
+    expect(getCacheStats(NOW).entries).toBe(1);
+  });
+});
+
+describe("hasCached", () => {
+  test("finds a fresh entry without counting a hit or miss", () => {
+    setCached({ query: "news", recency: "day" }, result("today"), NOW);
+
+    expect(hasCached({ query: "News?", recency: "day" }, NOW)).toBe(true);
+    expect(hasCached({ query: "news" }, NOW)).toBe(false);
+    expect(hasCached({ query: "news", recency: "day" }, NOW + 60 * MINUTE)).toBe(false);
+    expect(getCacheStats(NOW)).toMatchObject({ hits: 0, misses: 0 });
+  });
+});
+
+describe("isCachedSearch", () => {
+  test("is true only for a search the cache will answer", () => {
+    setCached({ query: "news", recency: "day" }, result("today"));
+
+    expect(isCachedSearch("perplexity_search", { query: "news", recency: "day" })).toBe(true);
+    expect(isCachedSearch("perplexity_search", { query: "news", recency: "day", fresh: true })).toBe(false);
+    expect(isCachedSearch("perplexity_ask", { query: "news", recency: "day" })).toBe(false);
+  });
+});
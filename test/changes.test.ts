@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+import {
+  applyChanges,
+  createFileChanges,
+  existsStaged,
+  formatDiff,
+  getBackupsDir,
+  hasPendingChanges,
+  readStaged,
+  restoreLatestBackup,
+  stageFile,
+  stageRemoval,
+} from "../src/commands/changes.js";
+
+const dir = join(homedir(), "changes-test");
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  rmSync(getBackupsDir(), { recursive: true, force: true });
+});
+
+function writeFixture(name: string, content: string, mode = 0o644): string {
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, name);
+  writeFileSync(path, content, { mode });
+  return path;
+}
+
+describe("stageRemoval", () => {
+  test("hides the file from later staged reads", () => {
+    const path = writeFixture("a.json", "{}\n");
+    const changes = createFileChanges();
+    stageRemoval(changes, path);
+
+    expect(existsStaged(changes, path)).toBe(false);
+    expect(() => readStaged(changes, path)).toThrow("ENOENT");
+    expect(existsSync(path)).toBe(true);
+  });
+
+  test("shows the deletion in the diff", () => {
+    const path = writeFixture("a.json", "{}\n");
+    const key = writeFixture("a.key", "pplx-secret\n", 0o600);
+    const changes = createFileChanges();
+    stageRemoval(changes, path);
+    stageRemoval(changes, key, { secret: true });
+
+    expect(formatDiff(changes)).toBe(
+      [
+        `--- ${path}`,
+        "+++ /dev/null",
+        "@@ -1,1 +0,0 @@",
+        "-{}",
+        `--- ${key}`,
+        "+++ /dev/null",
+        "(file deleted, content not shown)",
+      ].join("\n")
+    );
+  });
+
+  test("deletes the file, and restore puts it back with its mode", () => {
+    const key = writeFixture("a.key", "pplx-secret\n", 0o600);
+    const config = writeFixture("a.json", "{}\n");
+    const changes = createFileChanges();
+    stageRemoval(changes, key, { secret: true });
+    stageFile(changes, config, '{ "plugin": [] }\n');
+
+    expect(applyChanges(changes)).not.toBeNull();
+    expect(existsSync(key)).toBe(false);
+
+    expect(restoreLatestBackup()?.restored.sort()).toEqual([config, key].sort());
+    expect(readFileSync(key, "utf-8")).toBe("pplx-secret\n");
+    expect(statSync(key).mode & 0o777).toBe(0o600);
+    expect(readFileSync(config, "utf-8")).toBe("{}\n");
+  });
+
+  test("is not a change for a file that doesn't exist", () => {
+    const changes = createFileChanges();
+    stageRemoval(changes, join(dir, "missing.json"));
+
+    expect(applyChanges(changes)).toBeNull();
+  });
+});
+
+describe("staged edits", () => {
+  test("reads back the staged content and diffs it against the disk", () => {
+    const path = writeFixture("a.json", "{\n  \"a\": 1\n}\n");
+    const created = join(dir, "b.json");
+    const changes = createFileChanges();
+    stageFile(changes, path, "{\n  \"a\": 2\n}\n");
+    stageFile(changes, created, "{}\n");
+
+    expect(readStaged(changes, path)).toBe("{\n  \"a\": 2\n}\n");
+    expect(existsStaged(changes, created)).toBe(true);
+    expect(existsSync(created)).toBe(false);
+    expect(formatDiff(changes)).toBe(
+      [
+        `--- ${path}`,
+        `+++ ${path}`,
+        "@@ -1,3 +1,3 @@",
+        " {",
+        '-  "a": 1',
+        '+  "a": 2',
+        " }",
+        "--- /dev/null",
+        `+++ ${created}`,
+        "@@ -0,0 +1,1 @@",
+        "+{}",
+      ].join("\n")
+    );
+  });
+
+  test("has nothing to apply when the content is unchanged", () => {
+    const path = writeFixture("a.json", "{}\n");
+    const changes = createFileChanges();
+    stageFile(changes, path, "{}\n");
+
+    expect(hasPendingChanges(changes)).toBe(false);
+    expect(applyChanges(changes)).toBeNull();
+  });
+});
+
+describe("applyChanges", () => {
+  test("rolls back the files already written when a write fails", () => {
+    const path = writeFixture("a.json", "before\n");
+    const created = join(dir, "new.json");
+    // Its parent is a file, so the directory for it can't be created
+    const blocked = join(path, "blocked.json");
+    const changes = createFileChanges();
+    stageFile(changes, path, "after\n");
+    stageFile(changes, created, "{}\n");
+    stageFile(changes, blocked, "{}\n");
+
+    expect(() => applyChanges(changes)).toThrow("no files were changed");
+    expect(readFileSync(path, "utf-8")).toBe("before\n");
+    expect(existsSync(created)).toBe(false);
+    // The backup of a change that never happened is dropped
+    expect(restoreLatestBackup()).toBeNull();
+  });
+});
+
+describe("restoreLatestBackup", () => {
+  test("puts back edited files and deletes created ones", () => {
+    const path = writeFixture("a.json", "before\n");
+    const created = join(dir, "new.json");
+    const changes = createFileChanges();
+    stageFile(changes, path, "after\n");
+    stageFile(changes, created, "{}\n");
+    applyChanges(changes);
+
+    expect(readFileSync(path, "utf-8")).toBe("after\n");
+    const result = restoreLatestBackup();
+    expect(result).toMatchObject({ restored: [path], removed: [created] });
+    expect(readFileSync(path, "utf-8")).toBe("before\n");
+    expect(existsSync(created)).toBe(false);
+  });
+
+  test("undoes only the most recent change", () => {
+    const path = writeFixture("a.json", "first\n");
+    for (const content of ["second\n", "third\n"]) {
+      const changes = createFileChanges();
+      stageFile(changes, path, content);
+      applyChanges(changes);
+    }
+
+    restoreLatestBackup();
+    expect(readFileSync(path, "utf-8")).toBe("second\n");
+    restoreLatestBackup();
+    expect(readFileSync(path, "utf-8")).toBe("first\n");
+    expect(restoreLatestBackup()).toBeNull();
+  });
+});
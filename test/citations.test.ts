@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+
+import { UNSOURCED_NOTE, normalizeCitations } from "../src/citations.js";
+
+describe("normalizeCitations", () => {
+  test("rewrites a trailing sources section into the numbered list", () => {
+    const result = normalizeCitations(
+      "Bun is fast [2] and small [1].\n\nSources:\n1. https://a.example/x\n2. Bun blog - https://bun.sh/blog"
+    );
+    expect(result.text).toBe(
+      "Bun is fast [2] and small [1].\n\nSources:\n[1] a.example - https://a.example/x\n[2] Bun blog (bun.sh) - https://bun.sh/blog"
+    );
+    expect(result.unsourced).toBe(false);
+  });
+
+  test("merges duplicate sources and renumbers their markers", () => {
+    const result = normalizeCitations(
+      "Fast [3], small [2], stable [1][2].\n\n## References\n[1] https://a.example\n[2] https://a.example/#intro\n[3] https://b.example"
+    );
+    expect(result.sources.map((source) => source.url)).toEqual(["https://a.example", "https://b.example"]);
+    expect(result.text).toStartWith("Fast [2], small [1], stable [1].");
+  });
+
+  test("takes sources and titles from the tool's metadata", () => {
+    const result = normalizeCitations("Answer [1][2].", {
+      citations: ["https://a.example/?utm_source=x", "https://a.example/"],
+      titles: { "https://a.example/": "A" },
+    });
+    expect(result.sources).toEqual([{ url: "https://a.example/?utm_source=x", title: "A" }]);
+    expect(result.text).toBe("Answer [1].\n\nSources:\n[1] A (a.example) - https://a.example/?utm_source=x");
+  });
+
+  test("rewrites every marker style", () => {
+    const result = normalizeCitations("Answer 【1†source】 and <sup>2</sup> and [^1] and [1, 2].", {
+      citations: ["https://a.example", "https://b.example"],
+    });
+    expect(result.text).toStartWith("Answer [1] and [2] and [1] and [1][2].");
+  });
+
+  test("leaves markers without a source and markdown links alone", () => {
+    const result = normalizeCitations("Answer [1] and [7] and [see](https://c.example).", {
+      citations: ["https://a.example"],
+    });
+    expect(result.text).toStartWith("Answer [1] and [7] and [see](https://c.example).");
+  });
+
+  test("leaves indexes after identifiers alone", () => {
+    const result = normalizeCitations("Take list[2] and arr[2][2], not f()[2]. Fast [2][1].", {
+      citations: ["https://a.example", "https://a.example/"],
+    });
+    expect(result.text).toStartWith("Take list[2] and arr[2][2], not f()[2]. Fast [1].");
+  });
+
+  test("leaves brackets inside code alone", () => {
+    const result = normalizeCitations(
+      "Use `xs[2]` here [2].\n\n```ts\nconst y = [2];\n```\n\nSources:\n[1] https://a.example\n[2] https://a.example/\n"
+    );
+    expect(result.text).toStartWith("Use `xs[2]` here [1].\n\n```ts\nconst y = [2];\n```");
+  });
+
+  test("reads a JSON payload", () => {
+    expect(normalizeCitations('{"content":"JSON answer [1]","citations":["https://j.example"]}').text).toBe(
+      "JSON answer [1]\n\nSources:\n[1] j.example - https://j.example"
+    );
+  });
+
+  test("falls back to links in the text", () => {
+    expect(normalizeCitations("See [docs](https://docs.example/x) here.").sources).toEqual([
+      { url: "https://docs.example/x", title: "docs" },
+    ]);
+  });
+
+  test("flags an answer without sources", () => {
+    expect(normalizeCitations("Plain answer.")).toEqual({
+      text: `Plain answer.\n\n${UNSOURCED_NOTE}`,
+      sources: [],
+      unsourced: true,
+    });
+  });
+
+  test("is idempotent", () => {
+    const once = normalizeCitations(
+      "Bun is fast [2] and small [1].\n\nSources:\n1. https://a.example/x\n2. Bun blog - https://bun.sh/blog"
+    ).text;
+    expect(normalizeCitations(once).text).toBe(once);
+  });
+});
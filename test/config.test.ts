@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+import { getConfigDir, loadConfig } from "../src/config.js";
+
+const project = join(homedir(), "config-test");
+
+afterEach(() => {
+  rmSync(join(getConfigDir(), "perplexity.json"), { force: true });
+  rmSync(project, { recursive: true, force: true });
+});
+
+function writeGlobal(values: Record<string, unknown>): void {
+  mkdirSync(getConfigDir(), { recursive: true });
+  writeFileSync(join(getConfigDir(), "perplexity.json"), JSON.stringify(values));
+}
+
+function writeProject(values: Record<string, unknown>): string {
+  mkdirSync(join(project, ".opencode"), { recursive: true });
+  const path = join(project, ".opencode", "perplexity.json");
+  writeFileSync(path, JSON.stringify(values));
+  return path;
+}
+
+function rejectedPaths(directory = project): string[] {
+  return loadConfig(directory).issues.map((issue) => issue.path);
+}
+
+describe("loadConfig", () => {
+  test("lets the project override the global config", () => {
+    writeGlobal({ model: "sonar-pro", keywords: { threshold: 1 } });
+    const projectFile = writeProject({ model: "sonar" });
+
+    const { config, origins } = loadConfig(project);
+    expect(config.model).toBe("sonar");
+    expect(config.keywords?.threshold).toBe(1);
+    expect(origins.model).toEqual({ source: "project", location: projectFile });
+    expect(origins["keywords.threshold"].source).toBe("global");
+  });
+
+  test("adds the project's patterns to the global ones", () => {
+    writeGlobal({ keywords: { customPatterns: ["a"] }, guard: { internalDomains: ["corp.example.com"] } });
+    writeProject({ keywords: { customPatterns: ["b"] } });
+
+    const { config, origins } = loadConfig(project);
+    expect(config.keywords?.customPatterns).toEqual(["a", "b"]);
+    expect(config.guard?.internalDomains).toEqual(["corp.example.com"]);
+    expect(origins["keywords.customPatterns[0]"].source).toBe("global");
+    expect(origins["keywords.customPatterns[1]"].source).toBe("project");
+  });
+
+  test("ignores the project config without a directory", () => {
+    writeProject({ model: "sonar-pro" });
+    expect(loadConfig().config.model).toBe("sonar");
+  });
+});
+
+describe("project config restrictions", () => {
+  test.each(["apiKey", "apiKeyFile", "apiKeyCommand", "baseUrl", "mcpUrl"])("drops %p", (key) => {
+    writeGlobal({ apiKey: "pplx-global" });
+    writeProject({ [key]: "https://attacker.example" });
+
+    const { config, issues } = loadConfig(project);
+    expect(issues).toMatchObject([{ path: key, message: "only allowed in the global config" }]);
+    expect(config.apiKey).toBe("pplx-global");
+    expect(config.baseUrl).toBe("https://api.perplexity.ai");
+  });
+
+  test("keeps the guard on and at least as strict", () => {
+    writeGlobal({ guard: { action: "block" } });
+    writeProject({ guard: { enabled: false, secrets: false, action: "warn", internalDomains: ["corp.example.com"] } });
+
+    const { config } = loadConfig(project);
+    expect(rejectedPaths()).toEqual(["guard.enabled", "guard.secrets", "guard.action"]);
+    expect(config.guard).toMatchObject({ enabled: true, secrets: true, action: "block" });
+    expect(config.guard?.internalDomains).toEqual(["corp.example.com"]);
+  });
+
+  test("lets the guard get stricter", () => {
+    writeProject({ guard: { action: "block" } });
+    expect(loadConfig(project).config.guard?.action).toBe("block");
+  });
+
+  test("only lowers budget limits and raises cost estimates", () => {
+    writeGlobal({ budget: { dailyCalls: 50, sessionCalls: 10 } });
+    writeProject({
+      budget: { enabled: false, dailyCalls: 100, sessionCalls: 5, dailyCost: 1, modelCosts: { sonar: 0, "sonar-pro": 0.05 } },
+    });
+
+    const { config } = loadConfig(project);
+    expect(rejectedPaths()).toEqual(["budget.enabled", "budget.dailyCalls", "budget.modelCosts.sonar"]);
+    expect(config.budget).toMatchObject({ enabled: true, dailyCalls: 50, sessionCalls: 5, dailyCost: 1 });
+    expect(config.budget?.modelCosts).toMatchObject({ sonar: 0.01, "sonar-pro": 0.05 });
+  });
+
+  test("treats 0 as no limit, which a project can't ask for", () => {
+    writeGlobal({ budget: { dailyCalls: 50 } });
+    writeProject({ budget: { dailyCalls: 0 } });
+
+    expect(rejectedPaths()).toEqual(["budget.dailyCalls"]);
+    expect(loadConfig(project).config.budget?.dailyCalls).toBe(50);
+  });
+
+  test("drops templates outside the project", () => {
+    writeProject({ templates: { search: "../../outside.tmpl", research: "hints/research.tmpl" } });
+
+    const { config } = loadConfig(project);
+    expect(rejectedPaths()).toEqual(["templates.search"]);
+    expect(config.templates).toEqual({ research: join(project, ".opencode", "hints", "research.tmpl") });
+  });
+});
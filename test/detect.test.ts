@@ -0,0 +1,37 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "fs";
+
+import { getBudgetFilePath, recordBudgetCall } from "../src/budget.js";
+import { scoreCorpus } from "../src/commands/detect.js";
+import { resetConfig, useConfig } from "./helpers.js";
+
+const CORPUS = [
+  { line: 1, message: "do a deep dive into vector databases", expected: "research" as const },
+  { line: 2, message: "search the web for the latest bun release", expected: "search" as const },
+  { line: 3, message: "rename parseConfig() in this file", expected: "none" as const },
+];
+
+beforeEach(() => {
+  rmSync(getBudgetFilePath(), { force: true });
+  resetConfig();
+});
+
+afterAll(() => {
+  rmSync(getBudgetFilePath(), { force: true });
+  resetConfig();
+});
+
+describe("scoreCorpus", () => {
+  test("scores each message as labelled", () => {
+    const report = scoreCorpus(CORPUS);
+    expect(report.misses).toEqual([]);
+    expect(report.metrics.hint).toEqual({ precision: 1, recall: 1 });
+  });
+
+  test("scores the same with the budget spent", () => {
+    useConfig({ budget: { dailyCalls: 1 } });
+    recordBudgetCall("detect-test", "perplexity_search", {}, {});
+
+    expect(scoreCorpus(CORPUS).misses).toEqual([]);
+  });
+});
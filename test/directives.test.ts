@@ -0,0 +1,56 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+
+import { extractDirectives, toKeywordMatch } from "../src/directives.js";
+import { resetConfig, useConfig } from "./helpers.js";
+
+beforeEach(() => {
+  resetConfig();
+});
+
+afterAll(() => {
+  resetConfig();
+});
+
+describe("extractDirectives", () => {
+  test.each([
+    ["!web bun release notes", { action: "search", scope: "message" }],
+    ["!research vector databases", { action: "research", scope: "message" }],
+    ["!noweb fix this test", { action: "suppress", scope: "message" }],
+    ["!noweb session", { action: "suppress", scope: "session" }],
+    ["!web session", { action: "resume", scope: "session" }],
+    ["/pplx research llm evals", { action: "research", scope: "message" }],
+    ["!web:reasoning why is bun fast", { action: "search", route: "reasoning" }],
+  ])("reads %p", (message, directive) => {
+    expect(extractDirectives(message).directives).toMatchObject([directive]);
+  });
+
+  test("removes the directive from the text", () => {
+    expect(extractDirectives("what's new in vite !web").text).toBe("what's new in vite");
+    expect(extractDirectives("!web what's new in vite").text).toBe("what's new in vite");
+  });
+
+  test("ignores directives inside words and code", () => {
+    const message = "fix the !websocket handler and `!web` in ```\n!noweb\n```";
+    expect(extractDirectives(message)).toEqual({ text: message, directives: [] });
+  });
+
+  test("uses the configured prefix", () => {
+    useConfig({ directives: { prefix: "@" } });
+    expect(extractDirectives("@web bun").directives).toMatchObject([{ action: "search" }]);
+    expect(extractDirectives("!web bun").directives).toEqual([]);
+  });
+
+  test("does nothing when turned off", () => {
+    useConfig({ directives: { enabled: false } });
+    expect(extractDirectives("!web bun").directives).toEqual([]);
+  });
+});
+
+describe("toKeywordMatch", () => {
+  test("picks the category from the route or the action", () => {
+    const [web, research, routed] = extractDirectives("!web a !research b !web:comparison c").directives;
+    expect(toKeywordMatch(web)).toMatchObject({ type: "search", category: "search", matchedText: "!web" });
+    expect(toKeywordMatch(research)).toMatchObject({ type: "research", category: "research" });
+    expect(toKeywordMatch(routed)).toMatchObject({ type: "search", category: "comparison" });
+  });
+});
@@ -0,0 +1,19 @@
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+import { getConfigDir, loadProjectConfig } from "../src/config.js";
+import type { LoadedConfig } from "../src/config.js";
+
+/** Replaces the global perplexity.json and reloads the live config from it. */
+export function useConfig(values: Record<string, unknown>): LoadedConfig {
+  mkdirSync(getConfigDir(), { recursive: true });
+  writeFileSync(join(getConfigDir(), "perplexity.json"), JSON.stringify(values));
+  return loadProjectConfig(homedir());
+}
+
+/** Back to the built-in defaults. */
+export function resetConfig(): LoadedConfig {
+  rmSync(join(getConfigDir(), "perplexity.json"), { force: true });
+  return loadProjectConfig(homedir());
+}
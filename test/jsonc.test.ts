@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+
+import { JsoncParseError, appendArrayItem, parse, removeValue, setValue } from "../src/jsonc.js";
+
+const DOC = `{
+  // Plugins
+  "plugin": ["a"],
+  "mcp": {
+    "perplexity": { "type": "local" }, // trailing
+  },
+}
+`;
+
+describe("parse", () => {
+  test("accepts comments and trailing commas", () => {
+    expect(parse(DOC)).toEqual({ plugin: ["a"], mcp: { perplexity: { type: "local" } } });
+  });
+
+  test("leaves comment markers inside strings alone", () => {
+    expect(parse(`{ "url": "https://api.perplexity.ai", /* note */ "glob": "src/**/*.ts" }`)).toEqual({
+      url: "https://api.perplexity.ai",
+      glob: "src/**/*.ts",
+    });
+  });
+
+  test("parses escapes, numbers and literals", () => {
+    expect(parse(`["a\\"b\\u00e9\\n", -1.5e2, 0, true, false, null]`)).toEqual(['a"bé\n', -150, 0, true, false, null]);
+  });
+
+  test("lets later duplicate keys win, like JSON.parse", () => {
+    expect(parse(`{ "a": 1, "a": 2 }`)).toEqual({ a: 2 });
+  });
+
+  test("reports the line and column of a syntax error", () => {
+    let error: unknown;
+    try {
+      parse(`{\n  "a": 1\n  "b": 2\n}`);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(JsoncParseError);
+    expect((error as JsoncParseError).line).toBe(3);
+    expect((error as JsoncParseError).column).toBe(3);
+  });
+
+  test.each([`{ "a": 1 `, `{ /* open`, `[1, 2`, `"abc`, `{ "a": 1 } x`, ""])("rejects %p", (text) => {
+    expect(() => parse(text)).toThrow(JsoncParseError);
+  });
+});
+
+describe("setValue", () => {
+  test("appends a new property and keeps comments", () => {
+    expect(setValue(DOC, ["model"], "sonar")).toBe(`{
+  // Plugins
+  "plugin": ["a"],
+  "mcp": {
+    "perplexity": { "type": "local" }, // trailing
+  },
+  "model": "sonar",
+}
+`);
+  });
+
+  test("replaces a nested value in place", () => {
+    const edited = setValue(DOC, ["mcp", "perplexity", "type"], "remote");
+    expect(edited).toBe(DOC.replace(`"local"`, `"remote"`));
+  });
+
+  test("creates intermediate objects", () => {
+    expect(parse(setValue("{}", ["a", "b"], 1))).toEqual({ a: { b: 1 } });
+  });
+
+  test("keeps a comment inside an empty object", () => {
+    expect(setValue(`{\n  // note\n}\n`, ["a"], 1)).toBe(`{\n  // note\n  "a": 1\n}\n`);
+    expect(setValue(`{ /* note */ }`, ["a"], 1)).toBe(`{ /* note */\n  "a": 1\n}`);
+  });
+
+  test("refuses to set through a value that is not a container", () => {
+    expect(() => setValue(`{ "a": 1 }`, ["a", "b"], 1)).toThrow();
+  });
+});
+
+describe("appendArrayItem", () => {
+  test("appends to an existing inline array", () => {
+    expect(appendArrayItem(DOC, ["plugin"], "b")).toBe(DOC.replace(`["a"]`, `["a", "b"]`));
+  });
+
+  test("creates a missing array", () => {
+    expect(parse(appendArrayItem(DOC, ["tools"], "x"))).toEqual({
+      plugin: ["a"],
+      mcp: { perplexity: { type: "local" } },
+      tools: ["x"],
+    });
+  });
+
+  test("keeps a comment inside an empty array", () => {
+    expect(appendArrayItem(`{ "plugin": [ /* none */ ] }`, ["plugin"], "a")).toBe(`{ "plugin": [ /* none */ "a"] }`);
+    expect(appendArrayItem(`{\n  "plugin": [\n    // none\n  ]\n}`, ["plugin"], "a")).toBe(
+      `{\n  "plugin": [\n    // none\n    "a"\n  ]\n}`
+    );
+  });
+
+  test("refuses to append to an object", () => {
+    expect(() => appendArrayItem(DOC, ["mcp"], "x")).toThrow("not an array");
+  });
+});
+
+describe("removeValue", () => {
+  test("removes a property with its trailing comma and comment", () => {
+    const edited = removeValue(DOC, ["mcp", "perplexity"]);
+    expect(parse(edited)).toEqual({ plugin: ["a"], mcp: {} });
+    expect(edited).toContain("// Plugins");
+    expect(edited).not.toContain("// trailing");
+  });
+
+  test("removes an array item", () => {
+    expect(parse(removeValue(DOC, ["plugin", 0]))).toEqual({ plugin: [], mcp: { perplexity: { type: "local" } } });
+  });
+
+  test("returns the text unchanged when the path does not exist", () => {
+    expect(removeValue(DOC, ["mcp", "missing"])).toBe(DOC);
+    expect(removeValue(DOC, ["plugin", 5])).toBe(DOC);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+
+import { classify } from "../src/keywords.js";
+import { resetConfig, useConfig } from "./helpers.js";
+
+function signalNames(message: string): string[] {
+  return classify(message).signals.map((signal) => signal.name);
+}
+
+beforeEach(() => {
+  resetConfig();
+});
+
+afterAll(() => {
+  resetConfig();
+});
+
+describe("classify", () => {
+  test("scores an explicit web search above the threshold", () => {
+    const result = classify("search the web for the latest bun release");
+    expect(result.category).toBe("search");
+    expect(result.score).toBeGreaterThanOrEqual(result.threshold);
+    expect(signalNames("search the web for the latest bun release")).toEqual(["search-the-web"]);
+  });
+
+  test("sums the signals of the winning category and a trailing question mark", () => {
+    const result = classify("what's the latest news about Deno?");
+    expect(result.category).toBe("news");
+    expect(result.score).toBe(2.4);
+    expect(result.signals.map((signal) => signal.name)).toEqual(["whats-latest", "recent-news", "question"]);
+  });
+
+  test("prefers research patterns for deep analysis", () => {
+    expect(classify("do a deep dive on vector databases").category).toBe("research");
+  });
+
+  test("picks the category with the most weight", () => {
+    expect(classify("compare postgres vs mysql").category).toBe("comparison");
+  });
+
+  test("pulls local code questions below zero", () => {
+    const result = classify("refactor parseConfig() in this file");
+    expect(result.category).toBeNull();
+    expect(result.score).toBeLessThan(0);
+    expect(result.signals.map((signal) => signal.name)).toEqual([
+      "camel-case-identifier",
+      "call-expression",
+      "local-reference",
+      "code-change",
+    ]);
+  });
+
+  test("counts a file path against the message", () => {
+    expect(signalNames("look up why src/index.ts fails")).toContain("file-path");
+    expect(classify("look up why src/index.ts fails").score).toBe(0);
+  });
+
+  test("ignores phrases inside code", () => {
+    expect(signalNames("run `search the web` and ```\nlook up\n``` here")).toEqual([]);
+  });
+
+  test("does not add the question weight without a positive signal", () => {
+    expect(classify("hello there?")).toMatchObject({ score: 0, category: null, signals: [] });
+  });
+
+  test("uses the configured threshold", () => {
+    useConfig({ keywords: { threshold: 1.5 } });
+    expect(classify("look up bun").threshold).toBe(1.5);
+  });
+
+  test("detects a short non-English message for auto", () => {
+    useConfig({ keywords: { languages: ["auto"] } });
+    const result = classify("recherchiere die neuesten Entwicklungen");
+    expect(result.language).toBe("de");
+    expect(result.category).toBe("news");
+    expect(result.score).toBeGreaterThanOrEqual(result.threshold);
+  });
+
+  test("leaves the language undetected on a tie", () => {
+    expect(classify("la casa").language).toBeNull();
+  });
+
+  test("treats custom patterns as search signals", () => {
+    useConfig({ keywords: { customPatterns: ["\\bchangelog\\b"] } });
+    const result = classify("show the changelog for vite");
+    expect(result.category).toBe("search");
+    expect(result.signals[0]).toMatchObject({ name: "custom:\\bchangelog\\b", weight: 1, text: "changelog" });
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+import { createFileChanges, readStaged } from "../src/commands/changes.js";
+import { CONFIG_VERSION, migrateConfig, migrateProjectConfig } from "../src/commands/migrations.js";
+import { OPENCODE_CONFIG_DIR } from "../src/commands/shared.js";
+import { parse } from "../src/jsonc.js";
+import { getSecretsFilePath } from "../src/secrets.js";
+
+const perplexityPath = join(OPENCODE_CONFIG_DIR, "perplexity.json");
+const opencodePath = join(OPENCODE_CONFIG_DIR, "opencode.json");
+const project = join(homedir(), "migrations-test");
+
+afterEach(() => {
+  rmSync(perplexityPath, { force: true });
+  rmSync(opencodePath, { force: true });
+  rmSync(project, { recursive: true, force: true });
+});
+
+function writeJson(path: string, value: unknown): void {
+  mkdirSync(join(path, ".."), { recursive: true });
+  writeFileSync(path, JSON.stringify(value, null, 2));
+}
+
+describe("migrateConfig", () => {
+  test("runs every migration on a file from before versioning", () => {
+    writeJson(perplexityPath, { apiKey: "pplx-old" });
+    writeJson(opencodePath, {
+      mcp: { perplexity: { type: "local", command: ["my-mcp"], environment: { PERPLEXITY_API_KEY: "pplx-old" } } },
+    });
+
+    const changes = createFileChanges();
+    const steps = migrateConfig(changes);
+
+    expect(steps.map((step) => step.version)).toEqual([1, 2]);
+    expect(readStaged(changes, getSecretsFilePath())).toBe("pplx-old\n");
+    expect(parse(readStaged(changes, perplexityPath))).toEqual({
+      apiKeyFile: "~/.config/opencode/perplexity.key",
+      mcpUrl: "stdio://my-mcp",
+      configVersion: CONFIG_VERSION,
+    });
+    expect(readStaged(changes, opencodePath)).not.toContain("pplx-old");
+  });
+
+  test("skips migrations the file has already had", () => {
+    writeJson(perplexityPath, { apiKey: "pplx-old", configVersion: 1 });
+
+    const changes = createFileChanges();
+    expect(migrateConfig(changes).map((step) => step.version)).toEqual([2]);
+    expect(parse(readStaged(changes, perplexityPath))).toEqual({ apiKey: "pplx-old", configVersion: CONFIG_VERSION });
+  });
+
+  test("changes nothing at the current version", () => {
+    writeJson(perplexityPath, { configVersion: CONFIG_VERSION });
+
+    const changes = createFileChanges();
+    expect(migrateConfig(changes)).toEqual([]);
+    expect(changes.files.size).toBe(0);
+  });
+});
+
+describe("migrateProjectConfig", () => {
+  test("drops settings only the global config may set and replaces a plaintext key", () => {
+    const projectConfig = join(project, ".opencode", "perplexity.json");
+    const projectOpencode = join(project, "opencode.json");
+    writeJson(projectConfig, { $schema: "x", mcpUrl: "stdio://uvx", apiKey: "pplx-old", model: "sonar-pro" });
+    writeJson(projectOpencode, {
+      mcp: { perplexity: { type: "remote", url: "https://mcp.example", headers: { Authorization: "Bearer pplx-old" } } },
+    });
+
+    const changes = createFileChanges();
+    expect(migrateProjectConfig(changes, project)).toHaveLength(2);
+    expect(parse(readStaged(changes, projectConfig))).toEqual({ $schema: "x", model: "sonar-pro" });
+    expect(readStaged(changes, projectOpencode)).toContain('"Authorization": "Bearer {env:PERPLEXITY_API_KEY}"');
+  });
+});
@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { createServer } from "http";
+import type { IncomingHttpHeaders, Server } from "http";
+import type { AddressInfo } from "net";
+
+import { PerplexityError, formatSearchResult, search } from "../src/services/perplexity.js";
+import { resetConfig, useConfig } from "./helpers.js";
+
+interface Request {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+// A local stand-in for the Perplexity API, reached through `baseUrl`
+let server: Server;
+let baseUrl: string;
+let requests: Request[] = [];
+let reply: { status: number; body: unknown } = { status: 200, body: {} };
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      requests.push({ url: req.url, headers: req.headers, body: JSON.parse(data || "{}") });
+      res.writeHead(reply.status, { "Content-Type": "application/json" });
+      res.end(typeof reply.body === "string" ? reply.body : JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+afterAll(() => {
+  server.close();
+  resetConfig();
+});
+
+beforeEach(() => {
+  requests = [];
+  useConfig({ apiKey: "pplx-test-key", baseUrl, model: "sonar" });
+});
+
+describe("search", () => {
+  test("posts the query to baseUrl with the key and filters", async () => {
+    reply = {
+      status: 200,
+      body: {
+        model: "sonar-pro",
+        choices: [{ message: { content: "Bun 1.2 was released [1]." } }],
+        citations: ["https://bun.sh/blog/bun-v1.2"],
+        search_results: [{ url: "https://bun.sh/blog/bun-v1.2", title: "Bun 1.2" }],
+      },
+    };
+
+    const result = await search({
+      query: "what's new in bun",
+      recency: "week",
+      after: "2025-01-05",
+      before: "2025-02-01",
+      model: "sonar-pro",
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/v1/chat/completions");
+    expect(requests[0].headers.authorization).toBe("Bearer pplx-test-key");
+    expect(requests[0].body).toEqual({
+      model: "sonar-pro",
+      messages: [{ role: "user", content: "what's new in bun" }],
+      search_recency_filter: "week",
+      search_after_date_filter: "1/5/2025",
+      search_before_date_filter: "2/1/2025",
+    });
+    expect(result).toEqual({
+      content: "Bun 1.2 was released [1].",
+      citations: ["https://bun.sh/blog/bun-v1.2"],
+      titles: { "https://bun.sh/blog/bun-v1.2": "Bun 1.2" },
+      model: "sonar-pro",
+    });
+  });
+
+  test("falls back to search_results for citations and to the configured model", async () => {
+    reply = {
+      status: 200,
+      body: {
+        choices: [{ message: { content: "Answer" } }],
+        search_results: [{ url: "https://example.com/a" }, { title: "no url" }],
+      },
+    };
+
+    const result = await search({ query: "q" });
+
+    expect(requests[0].body.model).toBe("sonar");
+    expect(result.citations).toEqual(["https://example.com/a"]);
+    expect(result.model).toBe("sonar");
+  });
+
+  test("reports the API's status and error body", async () => {
+    reply = { status: 401, body: { error: "invalid key" } };
+
+    const error = await search({ query: "q" }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(PerplexityError);
+    expect((error as PerplexityError).status).toBe(401);
+    expect((error as PerplexityError).message).toContain('Perplexity API returned 401: {"error":"invalid key"}');
+  });
+
+  test("rejects a response without an answer", async () => {
+    reply = { status: 200, body: { choices: [] } };
+
+    await expect(search({ query: "q" })).rejects.toThrow("Perplexity API returned no answer");
+  });
+
+  test("refuses to search without a key", async () => {
+    useConfig({ baseUrl });
+
+    await expect(search({ query: "q" })).rejects.toThrow("API key is not configured");
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("formatSearchResult", () => {
+  test("appends numbered sources", () => {
+    expect(formatSearchResult({ content: "Answer", citations: ["https://a.example", "https://b.example"], model: "sonar" }))
+      .toBe("Answer\n\nSources:\n[1] https://a.example\n[2] https://b.example");
+  });
+
+  test("leaves an unsourced answer alone", () => {
+    expect(formatSearchResult({ content: "Answer", citations: [], model: "sonar" })).toBe("Answer");
+  });
+});
@@ -0,0 +1,68 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+
+import { decideNudge, forgetSession, recordMessage, recordNudge } from "../src/session.js";
+import { resetConfig, useConfig } from "./helpers.js";
+
+const SESSION = "session-test";
+const NOW = new Date(2025, 5, 16, 12).getTime();
+const MINUTE = 60_000;
+
+beforeEach(() => {
+  forgetSession(SESSION);
+  resetConfig();
+});
+
+afterAll(() => {
+  forgetSession(SESSION);
+  resetConfig();
+});
+
+// Counts a user message and records the hint decided for it
+function message(type: "search" | "research", now = NOW): string {
+  recordMessage(SESSION);
+  const level = decideNudge(SESSION, type, now);
+  recordNudge(SESSION, type, level, now);
+  return level;
+}
+
+describe("decideNudge", () => {
+  test("shows the full hint once per cooldown window", () => {
+    useConfig({ nudges: { cooldownMessages: 3 } });
+
+    expect(message("search")).toBe("full");
+    expect(message("search")).toBe("reminder");
+    expect(message("search")).toBe("reminder");
+    expect(message("search")).toBe("full");
+  });
+
+  test("counts messages without a hint towards the cooldown", () => {
+    useConfig({ nudges: { cooldownMessages: 3 } });
+    message("search");
+    recordMessage(SESSION);
+    recordMessage(SESSION);
+
+    expect(message("search")).toBe("full");
+  });
+
+  test("leaves out the reminder when repeat is none", () => {
+    useConfig({ nudges: { repeat: "none" } });
+    message("search");
+
+    expect(message("search")).toBe("none");
+  });
+
+  test("always gives the full hint when escalating to research", () => {
+    message("search");
+
+    expect(message("research")).toBe("full");
+    expect(message("search")).toBe("reminder");
+  });
+
+  test("ends the cooldown when either limit has passed", () => {
+    useConfig({ nudges: { cooldownMessages: 10, cooldownMinutes: 5 } });
+    message("search");
+
+    expect(message("search", NOW + 4 * MINUTE)).toBe("reminder");
+    expect(message("search", NOW + 5 * MINUTE)).toBe("full");
+  });
+});
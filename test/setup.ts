@@ -0,0 +1,15 @@
+import { afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Tests must never read or write the real ~/.config/opencode
+const home = mkdtempSync(join(tmpdir(), "perplexity-opencode-test-"));
+process.env.HOME = home;
+delete process.env.PERPLEXITY_API_KEY;
+delete process.env.PERPLEXITY_BASE_URL;
+delete process.env.PERPLEXITY_MODEL;
+
+afterAll(() => {
+  rmSync(home, { recursive: true, force: true });
+});
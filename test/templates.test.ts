@@ -0,0 +1,99 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+import { detectKeywords } from "../src/keywords.js";
+import { resolveRoute } from "../src/routing.js";
+import {
+  TemplateError,
+  compileTemplate,
+  getNudge,
+  getTemplateVariables,
+  loadTemplates,
+  renderTemplate,
+} from "../src/templates.js";
+import type { TemplateVariables } from "../src/templates.js";
+import { resetConfig, useConfig } from "./helpers.js";
+
+const dir = join(homedir(), "templates-test");
+
+function variables(values: Partial<TemplateVariables>): TemplateVariables {
+  return { ...getTemplateVariables(), ...values };
+}
+
+function render(source: string, values: Partial<TemplateVariables>): string {
+  return renderTemplate(compileTemplate(source), variables(values));
+}
+
+beforeEach(() => {
+  resetConfig();
+  loadTemplates();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+  resetConfig();
+  loadTemplates();
+});
+
+describe("compileTemplate", () => {
+  test("fills in variables", () => {
+    expect(render("Use {{ toolName }} for {{category}}.", { toolName: "perplexity_search", category: "news" })).toBe(
+      "Use perplexity_search for news."
+    );
+  });
+
+  test("renders if, else and unless blocks", () => {
+    const source = "{{#if recency}}recency={{recency}}{{else}}no filter{{/if}}{{#unless language}}, English{{/unless}}";
+    expect(render(source, { recency: "week", language: "" })).toBe("recency=week, English");
+    expect(render(source, { recency: "", language: "German" })).toBe("no filter");
+  });
+
+  test("drops the lines that only hold block tags", () => {
+    expect(render("A\n{{#if after}}\nafter {{after}}\n{{/if}}\nB\n", { after: "" })).toBe("A\nB\n");
+    expect(render("A\n{{#if after}}\nafter {{after}}\n{{/if}}\nB\n", { after: "2025-01-01" })).toBe(
+      "A\nafter 2025-01-01\nB\n"
+    );
+  });
+
+  test.each([
+    ["{{nope}}", 'unknown variable "nope"', 1],
+    ["a\n{{#if recency}}", '"{{#if}}" is never closed', 2],
+    ["{{/if}}", 'unexpected "{{/if}}"', 1],
+    ["a\nb\n{{recency", "unterminated or malformed tag", 3],
+  ])("rejects %p", (source, reason, line) => {
+    let error: unknown;
+    try {
+      compileTemplate(source);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(TemplateError);
+    expect((error as TemplateError).reason).toStartWith(reason);
+    expect((error as TemplateError).line).toBe(line);
+  });
+});
+
+describe("getNudge", () => {
+  test("prefers the category's template over the type's", () => {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "news.tmpl"), "News: {{matchedText}} via {{toolName}}\n");
+    writeFileSync(join(dir, "search.tmpl"), "Search\n");
+    useConfig({ templates: { news: join(dir, "news.tmpl"), search: join(dir, "search.tmpl") } });
+    expect(loadTemplates().issues).toEqual([]);
+
+    const match = detectKeywords("what's the latest news about Deno?")!;
+    expect(getNudge("full", match, null, resolveRoute(match.category))).toBe(
+      "<perplexity-hint>\nNews: latest news via perplexity_search\n</perplexity-hint>"
+    );
+  });
+
+  test("falls back to the built-in hint when a template can't be read", () => {
+    useConfig({ templates: { search: join(dir, "missing.tmpl") } });
+    expect(loadTemplates().issues).toMatchObject([{ path: "templates.search" }]);
+
+    const match = detectKeywords("search the web for bun")!;
+    expect(getNudge("full", match, null, resolveRoute(match.category))).toContain("perplexity_search");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+
+import { dayKey, describeTemporal, formatDate, parseTemporal } from "../src/temporal.js";
+
+// Sunday, 15 June 2025, local time
+const NOW = new Date(2025, 5, 15, 12);
+
+describe("formatDate", () => {
+  test("uses the local date", () => {
+    expect(formatDate(new Date(2025, 0, 5, 23, 59))).toBe("2025-01-05");
+  });
+});
+
+describe("dayKey", () => {
+  test("keys timestamps and ISO times by their local day", () => {
+    const lateEvening = new Date(2025, 0, 5, 23, 59);
+    expect(dayKey(lateEvening.getTime())).toBe("2025-01-05");
+    expect(dayKey(lateEvening.toISOString())).toBe("2025-01-05");
+  });
+});
+
+describe("parseTemporal", () => {
+  test.each([
+    ["what happened today in the rust world", "day", "today"],
+    ["yesterday's release notes", "day", "yesterday's"],
+    ["npm news this week", "week", "this week"],
+    ["what changed recently in vite", "month", "recently"],
+    ["last month's npm outage", "month", "last month's"],
+    ["top frameworks this year", "year", "this year"],
+    ["outages in the last 7 days", "week", "last 7 days"],
+    ["changes over the past 30 days", "month", "past 30 days"],
+  ])("reads %p as recency %p", (message, recency, expression) => {
+    expect(parseTemporal(message, NOW)).toEqual({ kind: "recency", recency, expression } as never);
+  });
+
+  test.each([
+    ["Q1 2025 earnings", "2025-01-01", "2025-03-31", "Q1 2025"],
+    ["results for Q4 '24", "2024-10-01", "2024-12-31", "Q4 '24"],
+    ["Q3 earnings of 2024", "2024-07-01", "2024-09-30", "Q3 earnings of 2024"],
+    ["in 2023, how were Q2 sales", "2023-04-01", "2023-06-30", "2023, how were Q2"],
+    ["Q2 numbers for '23", "2023-04-01", "2023-06-30", "Q2 numbers for '23"],
+    ["how did Q2 go", "2025-04-01", "2025-06-15", "Q2"],
+    ["how did Q3 go", "2024-07-01", "2024-09-30", "Q3"],
+    ["changes since March", "2025-03-01", "2025-06-15", "since March"],
+    ["changes since September", "2024-09-01", "2025-06-15", "since September"],
+    ["changes since last month", "2025-05-01", "2025-06-15", "since last month"],
+    ["changes since last week", "2025-06-02", "2025-06-15", "since last week"],
+    ["changes since 2023", "2023-01-01", "2025-06-15", "since 2023"],
+    ["incidents in the last 3 weeks", "2025-05-25", "2025-06-15", "last 3 weeks"],
+    ["best laptops of 2024", "2024-01-01", "2024-12-31", "of 2024"],
+    ["layoffs in 2025", "2025-01-01", "2025-06-15", "in 2025"],
+  ])("reads %p as a range", (message, after, before, expression) => {
+    expect(parseTemporal(message, NOW)).toEqual({ kind: "range", after, before, expression });
+  });
+
+  test("only takes a quarter's year from the same sentence", () => {
+    expect(parseTemporal("how did Q3 go. Sales in 2023 were flat", NOW)).toMatchObject({
+      after: "2024-07-01",
+      expression: "Q3",
+    });
+  });
+
+  test("prefers an explicit range over a relative window", () => {
+    expect(parseTemporal("what happened today compared to Q1 2025", NOW)).toMatchObject({ kind: "range" });
+  });
+
+  test.each([
+    ["the history of unix", "history of"],
+    ["who invented the transistor", "who invented"],
+    ["browsers in 1998", "in 1998"],
+  ])("reads %p as historical", (message, expression) => {
+    expect(parseTemporal(message, NOW)).toEqual({ kind: "historical", expression });
+  });
+
+  test.each(["plans for 2030", "Q4 2025 guidance", "Q3 2030 targets", "changes since 2030", "since December 2026"])(
+    "ignores the future in %p",
+    (message) => {
+      expect(parseTemporal(message, NOW)).toBeNull();
+    }
+  );
+
+  test("ignores expressions inside code", () => {
+    expect(parseTemporal("why does `today()` return undefined", NOW)).toBeNull();
+  });
+
+  test("returns null without a time expression", () => {
+    expect(parseTemporal("how do I configure eslint", NOW)).toBeNull();
+  });
+});
+
+describe("describeTemporal", () => {
+  test("names the recency filter", () => {
+    const hint = parseTemporal("news today", NOW)!;
+    expect(describeTemporal(hint, NOW)).toBe(
+      'Time frame: the user said "today" (today is 2025-06-15). Pass recency="day".'
+    );
+  });
+
+  test("names the date range", () => {
+    const hint = parseTemporal("Q1 2025 earnings", NOW)!;
+    expect(describeTemporal(hint, NOW)).toContain('Pass after="2025-01-01" and before="2025-03-31"');
+  });
+
+  test("asks for no filter on historical questions", () => {
+    const hint = parseTemporal("the history of unix", NOW)!;
+    expect(describeTemporal(hint, NOW)).toContain("Do not pass a recency filter or date range.");
+  });
+});